@@ -99,7 +99,9 @@ async function main() {
         console.log(`[genericUpdate] game time updated to ${update.time}`);
         break;
       case "biome":
-        console.log(`[genericUpdate] biome changed to ID ${update.biomeId}`);
+        console.log(
+          `[genericUpdate] biome changed to ${update.biome ?? `ID ${update.biomeId}`}`,
+        );
         break;
     }
   });
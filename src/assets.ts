@@ -0,0 +1,241 @@
+import { Buffer } from "node:buffer";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { inflateRawSync } from "node:zlib";
+import { ASSETS_MAX_INFLATED_BYTES } from "./constants.js";
+import { parseZon, type ZonValue } from "./zon.js";
+
+export const ASSET_CATEGORIES = [
+  "blocks",
+  "items",
+  "biomes",
+  "particles",
+] as const;
+
+export type AssetCategory = (typeof ASSET_CATEGORIES)[number];
+
+export interface AssetCacheOptions {
+  cacheDir: string;
+  host: string;
+  port: number;
+}
+
+// The asset archive is a sequence of
+// [u32 pathLength][path bytes][u32 dataLength][data bytes]
+// entries, compressed as a whole with raw DEFLATE.
+export function parseAssetArchive(archive: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  while (offset < archive.length) {
+    if (offset + 4 > archive.length) {
+      throw new Error("Asset archive truncated (path length)");
+    }
+    const pathLength = archive.readUInt32BE(offset);
+    offset += 4;
+    if (offset + pathLength > archive.length) {
+      throw new Error("Asset archive truncated (path)");
+    }
+    const filePath = archive
+      .slice(offset, offset + pathLength)
+      .toString("utf8")
+      .replaceAll("\\", "/");
+    offset += pathLength;
+    if (offset + 4 > archive.length) {
+      throw new Error("Asset archive truncated (data length)");
+    }
+    const dataLength = archive.readUInt32BE(offset);
+    offset += 4;
+    if (offset + dataLength > archive.length) {
+      throw new Error(`Asset archive truncated (data of ${filePath})`);
+    }
+    files.set(filePath, archive.slice(offset, offset + dataLength));
+    offset += dataLength;
+  }
+  return files;
+}
+
+// Inverse of parseAssetArchive (before compression).
+export function encodeAssetArchive(files: Map<string, Buffer>): Buffer {
+  const parts: Buffer[] = [];
+  for (const [filePath, data] of files) {
+    const pathBytes = Buffer.from(filePath, "utf8");
+    const pathLength = Buffer.alloc(4);
+    pathLength.writeUInt32BE(pathBytes.length, 0);
+    const dataLength = Buffer.alloc(4);
+    dataLength.writeUInt32BE(data.length, 0);
+    parts.push(pathLength, pathBytes, dataLength, data);
+  }
+  return Buffer.concat(parts);
+}
+
+// Maps "<addon>/<category>/<name>.zig.zon" to ["<category>", "<addon>:<name>"].
+function definitionIdFromPath(
+  filePath: string,
+): [AssetCategory, string] | null {
+  const parts = filePath.split("/");
+  if (parts.length < 3) {
+    return null;
+  }
+  const [addon, category, ...rest] = parts;
+  if (!(ASSET_CATEGORIES as readonly string[]).includes(category)) {
+    return null;
+  }
+  const fileName = rest[rest.length - 1];
+  if (fileName.startsWith("_") || !fileName.endsWith(".zon")) {
+    return null;
+  }
+  const name = rest.join("/").replace(/(\.zig)?\.zon$/, "");
+  return [category as AssetCategory, `${addon}:${name}`];
+}
+
+/**
+ * AssetTree exposes the files of the server's asset archive.  Block, item,
+ * biome and particle definitions are parsed from ZON on first access.
+ */
+export class AssetTree {
+  public readonly hash: string;
+  private readonly files: Map<string, Buffer>;
+  private readonly definitionPaths = new Map<
+    AssetCategory,
+    Map<string, string>
+  >();
+  private readonly parsed = new Map<string, ZonValue>();
+
+  constructor(files: Map<string, Buffer>, hash: string) {
+    this.files = files;
+    this.hash = hash;
+    for (const category of ASSET_CATEGORIES) {
+      this.definitionPaths.set(category, new Map());
+    }
+    for (const filePath of files.keys()) {
+      const definition = definitionIdFromPath(filePath);
+      if (definition) {
+        this.definitionPaths.get(definition[0])?.set(definition[1], filePath);
+      }
+    }
+  }
+
+  listFiles(prefix = ""): string[] {
+    return [...this.files.keys()].filter((filePath) =>
+      filePath.startsWith(prefix),
+    );
+  }
+
+  getFile(filePath: string): Buffer | undefined {
+    return this.files.get(filePath);
+  }
+
+  listDefinitions(category: AssetCategory): string[] {
+    return [...(this.definitionPaths.get(category)?.keys() ?? [])];
+  }
+
+  // Returns the parsed definition, or undefined if it is missing or invalid.
+  getDefinition(category: AssetCategory, id: string): ZonValue | undefined {
+    const filePath = this.definitionPaths.get(category)?.get(id);
+    if (filePath === undefined) {
+      return undefined;
+    }
+    if (this.parsed.has(filePath)) {
+      return this.parsed.get(filePath);
+    }
+    const data = this.files.get(filePath);
+    if (!data) {
+      return undefined;
+    }
+    let value: ZonValue | undefined;
+    try {
+      value = parseZon(data.toString("utf8"));
+    } catch {
+      value = undefined;
+    }
+    if (value !== undefined) {
+      this.parsed.set(filePath, value);
+    }
+    return value;
+  }
+
+  getBlock(id: string): ZonValue | undefined {
+    return this.getDefinition("blocks", id);
+  }
+
+  getItem(id: string): ZonValue | undefined {
+    return this.getDefinition("items", id);
+  }
+
+  getBiome(id: string): ZonValue | undefined {
+    return this.getDefinition("biomes", id);
+  }
+
+  getParticle(id: string): ZonValue | undefined {
+    return this.getDefinition("particles", id);
+  }
+}
+
+function cacheFilePath(options: AssetCacheOptions, hash: string): string {
+  const server = `${options.host}_${options.port}`.replace(
+    /[^A-Za-z0-9._-]/g,
+    "_",
+  );
+  return path.join(options.cacheDir, server, `${hash}.bin`);
+}
+
+const DIGEST_LENGTH = 32;
+
+function sha256(data: Buffer): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+// Cache files hold the SHA-256 of the inflated archive followed by the
+// archive itself.  Returns null for missing, truncated or corrupted files.
+async function readCachedArchive(filePath: string): Promise<Buffer | null> {
+  let file: Buffer;
+  try {
+    file = await readFile(filePath);
+  } catch {
+    return null;
+  }
+  if (file.length < DIGEST_LENGTH) {
+    return null;
+  }
+  const archive = file.subarray(DIGEST_LENGTH);
+  if (!sha256(archive).equals(file.subarray(0, DIGEST_LENGTH))) {
+    return null;
+  }
+  return archive;
+}
+
+// Inflate and index the ASSETS handshake payload.  With a cache configured,
+// the inflated archive is stored per server and content hash, and reused
+// when the same archive is received again.  Archives inflating to more than
+// ASSETS_MAX_INFLATED_BYTES are rejected.
+export async function loadAssets(
+  compressed: Buffer,
+  cache?: AssetCacheOptions,
+): Promise<AssetTree> {
+  const hash = sha256(compressed).toString("hex");
+  const filePath = cache ? cacheFilePath(cache, hash) : null;
+  if (filePath !== null) {
+    const archive = await readCachedArchive(filePath);
+    if (archive !== null) {
+      try {
+        return new AssetTree(parseAssetArchive(archive), hash);
+      } catch {
+        // Unreadable despite the matching digest; inflate it again.
+      }
+    }
+  }
+  const archive = inflateRawSync(compressed, {
+    maxOutputLength: ASSETS_MAX_INFLATED_BYTES,
+  });
+  const tree = new AssetTree(parseAssetArchive(archive), hash);
+  if (filePath !== null) {
+    try {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, Buffer.concat([sha256(archive), archive]));
+    } catch {
+      // Caching is best effort; the parsed assets are still usable.
+    }
+  }
+  return tree;
+}
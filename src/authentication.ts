@@ -5,9 +5,11 @@ import {
   createPublicKey,
   randomBytes,
   sign,
+  verify,
 } from "node:crypto";
 import { readFile, writeFile } from "node:fs/promises";
 import { WORDLIST } from "./wordlist.js";
+import { stringifyZon } from "./zon.js";
 
 // Key salts from authentication.zig lines 59-63
 const KEY_SALTS = [
@@ -130,6 +132,66 @@ export async function signMlDsa44(
   return Buffer.from(sig);
 }
 
+// SPKI DER prefixes for raw public keys
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+const P256_SPKI_PREFIX = Buffer.from(
+  "3059301306072a8648ce3d020106082a8648ce3d030107034200",
+  "hex",
+);
+
+export function verifyEd25519(
+  publicKey: Buffer,
+  message: Buffer,
+  signature: Buffer,
+): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]),
+      format: "der",
+      type: "spki",
+    });
+    return verify(null, message, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+// `signature` is the 64-byte compact (r || s) form produced by signP256.
+export function verifyP256(
+  publicKey: Buffer,
+  message: Buffer,
+  signature: Buffer,
+): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([P256_SPKI_PREFIX, publicKey]),
+      format: "der",
+      type: "spki",
+    });
+    return verify(
+      "sha256",
+      message,
+      { key, dsaEncoding: "ieee-p1363" },
+      signature,
+    );
+  } catch {
+    return false;
+  }
+}
+
+export async function verifyMlDsa44(
+  publicKey: Uint8Array,
+  message: Buffer,
+  signature: Uint8Array,
+): Promise<boolean> {
+  const { ml_dsa44 } = await import("@noble/post-quantum/ml-dsa");
+  try {
+    return ml_dsa44.verify(publicKey, message, signature);
+  } catch {
+    return false;
+  }
+}
+
 export async function deriveKeys(accountCodeText: string): Promise<KeySet> {
   const { ml_dsa44 } = await import("@noble/post-quantum/ml-dsa");
 
@@ -200,9 +262,14 @@ export async function loadOrCreateIdentity(
   return { accountCode, keys };
 }
 
+export function publicKeysZonValue(keys: KeySet): Record<string, string> {
+  return {
+    ed25519: keys.ed25519PubKey.toString("base64"),
+    ecdsaP256Sha256: keys.p256PubKey.toString("base64"),
+    mldsa44: keys.mlDsa44PubKey.toString("base64"),
+  };
+}
+
 export function buildPublicKeysZon(keys: KeySet): string {
-  const ed25519B64 = keys.ed25519PubKey.toString("base64");
-  const p256B64 = keys.p256PubKey.toString("base64");
-  const mldsaB64 = keys.mlDsa44PubKey.toString("base64");
-  return `{.ed25519 = "${ed25519B64}", .ecdsaP256Sha256 = "${p256B64}", .mldsa44 = "${mldsaB64}"}`;
+  return stringifyZon(publicKeysZonValue(keys));
 }
@@ -1,18 +1,19 @@
 import { Buffer } from "node:buffer";
 import { TextDecoder } from "node:util";
+import {
+  applyChatMarkupToken,
+  type ChatMarkupToken,
+  type ChatStyle,
+  openingChatMarkup,
+  tokenizeChatMarkup,
+} from "./chatMarkup.js";
 
 const textDecoder = new TextDecoder("utf-8", { fatal: true });
 
-// Chat message limits
-// Note: The server allows up to 10,000 bytes and 1,000 visible characters,
-// but the client must respect MTU constraints for LOSSY channel packets.
-// MTU = 548 bytes:
-//   - Channel ID + Sequence: 5 bytes
-//   - Protocol ID: 1 byte
-//   - VarInt size (2 bytes for messages under ~16KB): 2 bytes
-//   - Maximum payload: 548 - 5 - 1 - 2 = 540 bytes
-const MAX_VISIBLE_CHARACTERS = 1000;
-const MAX_MESSAGE_BYTES = 540;
+// Chat message limits, as enforced by the server.  Messages larger than one
+// packet are split across several by the send channel.
+export const MAX_VISIBLE_CHARACTERS = 1000;
+export const MAX_MESSAGE_BYTES = 10_000;
 
 interface CodePoint {
   value: number;
@@ -183,3 +184,100 @@ export function prepareChatMessage(rawMessage: string): Buffer {
 
   return payload;
 }
+
+export interface SplitChatOptions {
+  // Default: MAX_MESSAGE_BYTES.
+  maxBytes?: number;
+  // Default: MAX_VISIBLE_CHARACTERS.
+  maxVisibleCharacters?: number;
+}
+
+function isBreak(token: ChatMarkupToken): boolean {
+  return token.effect === null && /^\s$/.test(token.source);
+}
+
+// Split `text` into messages that prepareChatMessage sends without trimming.
+// Breaks fall on line ends or spaces where possible, never inside a markup
+// token, and each message reopens the styles still active from the previous
+// one.
+export function splitChatMessage(
+  text: string,
+  {
+    maxBytes = MAX_MESSAGE_BYTES,
+    maxVisibleCharacters = MAX_VISIBLE_CHARACTERS,
+  }: SplitChatOptions = {},
+): string[] {
+  const tokens = tokenizeChatMarkup(text.replace(/\r\n?/g, "\n"));
+  const messages: string[] = [];
+  let style: ChatStyle = {
+    bold: false,
+    underline: false,
+    strikethrough: false,
+    color: null,
+  };
+  let start = 0;
+  while (start < tokens.length) {
+    const prefix = openingChatMarkup(style);
+    let bytes = Buffer.byteLength(prefix, "utf8");
+    let visible = 0;
+    let end = start;
+    let lastSpace = -1;
+    let lastNewline = -1;
+    while (end < tokens.length) {
+      const token = tokens[end];
+      const tokenBytes = Buffer.byteLength(token.source, "utf8");
+      const tokenVisible = token.text === "" ? 0 : 1;
+      if (
+        bytes + tokenBytes > maxBytes ||
+        visible + tokenVisible > maxVisibleCharacters
+      ) {
+        break;
+      }
+      if (isBreak(token)) {
+        if (token.source === "\n") {
+          lastNewline = end;
+        } else {
+          lastSpace = end;
+        }
+      }
+      bytes += tokenBytes;
+      visible += tokenVisible;
+      end += 1;
+    }
+    if (end === start) {
+      throw new RangeError(
+        `Chat markup "${tokens[start].source}" does not fit in ${maxBytes} bytes`,
+      );
+    }
+
+    // Cut at the last line end unless that leaves the message less than half
+    // full, then at the last space, and only then mid-word.
+    let next = end;
+    if (end < tokens.length) {
+      const cut =
+        lastNewline > start && lastNewline - start >= (end - start) / 2
+          ? lastNewline
+          : Math.max(lastSpace, lastNewline);
+      if (cut > start) {
+        end = cut;
+        next = cut + 1;
+      }
+    }
+    const body = tokens.slice(start, end);
+    while (body.length > 0 && isBreak(body[body.length - 1])) {
+      body.pop();
+    }
+    if (body.some((token) => token.text !== "")) {
+      messages.push(prefix + body.map((token) => token.source).join(""));
+    }
+    for (const token of tokens.slice(start, next)) {
+      style = applyChatMarkupToken(style, token);
+    }
+    start = next;
+    // Whitespace at the start of a continuation would only indent it.
+    while (start > 0 && start < tokens.length && isBreak(tokens[start])) {
+      start += 1;
+    }
+  }
+  return messages;
+}
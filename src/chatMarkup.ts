@@ -0,0 +1,310 @@
+// Cubyz chat markup, as counted by countVisibleCharacters in chatFormat.ts:
+//   *        toggles bold
+//   __       toggles underline (a single `_` is text)
+//   ~~       toggles strikethrough (a single `~` is text)
+//   #RRGGBB  sets the text color
+//   §        resets all styles
+//   \x       the character x, without its markup meaning
+
+export interface ChatStyle {
+  bold: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+  // Lowercase `#rrggbb`, or null for the default color.
+  color: string | null;
+}
+
+export interface ChatSpan {
+  text: string;
+  style: ChatStyle;
+}
+
+const DEFAULT_STYLE: ChatStyle = {
+  bold: false,
+  underline: false,
+  strikethrough: false,
+  color: null,
+};
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+const MARKUP_CHARACTERS = new Set(["*", "_", "~", "#", "§", "\\"]);
+
+function sameStyle(a: ChatStyle, b: ChatStyle): boolean {
+  return (
+    a.bold === b.bold &&
+    a.underline === b.underline &&
+    a.strikethrough === b.strikethrough &&
+    a.color === b.color
+  );
+}
+
+// One unit of markup: a visible character (`text` set, possibly written as
+// an escape) or a style change.  Tokens are never split when chat is broken
+// into several messages.
+export interface ChatMarkupToken {
+  source: string;
+  text: string;
+  effect: "bold" | "underline" | "strikethrough" | "color" | "reset" | null;
+  // Set for valid `#RRGGBB` tokens.
+  color?: string;
+}
+
+export function tokenizeChatMarkup(text: string): ChatMarkupToken[] {
+  const chars = Array.from(text);
+  const tokens: ChatMarkupToken[] = [];
+  let index = 0;
+  while (index < chars.length) {
+    const char = chars[index];
+    index += 1;
+    switch (char) {
+      case "*":
+        tokens.push({ source: char, text: "", effect: "bold" });
+        break;
+      case "_":
+      case "~":
+        if (chars[index] === char) {
+          index += 1;
+          tokens.push({
+            source: char + char,
+            text: "",
+            effect: char === "_" ? "underline" : "strikethrough",
+          });
+        } else {
+          tokens.push({ source: char, text: char, effect: null });
+        }
+        break;
+      case "\\":
+        // A trailing backslash is shown as is.
+        if (index < chars.length) {
+          tokens.push({
+            source: char + chars[index],
+            text: chars[index],
+            effect: null,
+          });
+          index += 1;
+        } else {
+          tokens.push({ source: char, text: char, effect: null });
+        }
+        break;
+      case "#": {
+        const hex = chars.slice(index, index + 6).join("");
+        index += 6;
+        // An incomplete color swallows the rest of the message.
+        const token: ChatMarkupToken = {
+          source: char + hex,
+          text: "",
+          effect: "color",
+        };
+        if (HEX_COLOR_PATTERN.test(hex)) {
+          token.color = `#${hex.toLowerCase()}`;
+        }
+        tokens.push(token);
+        break;
+      }
+      case "§":
+        tokens.push({ source: char, text: "", effect: "reset" });
+        break;
+      default:
+        tokens.push({ source: char, text: char, effect: null });
+    }
+  }
+  return tokens;
+}
+
+// The style in effect after `token`.
+export function applyChatMarkupToken(
+  style: ChatStyle,
+  token: ChatMarkupToken,
+): ChatStyle {
+  switch (token.effect) {
+    case "bold":
+    case "underline":
+    case "strikethrough":
+      return { ...style, [token.effect]: !style[token.effect] };
+    case "color":
+      return token.color ? { ...style, color: token.color } : style;
+    case "reset":
+      return { ...DEFAULT_STYLE };
+    default:
+      return style;
+  }
+}
+
+// Markup that switches from the default style to `style`.
+export function openingChatMarkup(style: Partial<ChatStyle>): string {
+  let out = "";
+  if (style.bold) {
+    out += "*";
+  }
+  if (style.underline) {
+    out += "__";
+  }
+  if (style.strikethrough) {
+    out += "~~";
+  }
+  if (style.color) {
+    out += normalizeColor(style.color);
+  }
+  return out;
+}
+
+// Split chat text into runs of identically styled text.  Adjacent runs never
+// share a style, and empty runs are dropped.
+export function parseChatMarkup(text: string): ChatSpan[] {
+  const spans: ChatSpan[] = [];
+  let style: ChatStyle = { ...DEFAULT_STYLE };
+  for (const token of tokenizeChatMarkup(text)) {
+    if (token.effect !== null) {
+      style = applyChatMarkupToken(style, token);
+      continue;
+    }
+    const last = spans[spans.length - 1];
+    if (last && sameStyle(last.style, style)) {
+      last.text += token.text;
+    } else {
+      spans.push({ text: token.text, style: { ...style } });
+    }
+  }
+  return spans;
+}
+
+function toSpans(input: string | ChatSpan[]): ChatSpan[] {
+  return typeof input === "string" ? parseChatMarkup(input) : input;
+}
+
+export function toPlainText(input: string | ChatSpan[]): string {
+  return toSpans(input)
+    .map((span) => span.text)
+    .join("");
+}
+
+// Render for a terminal with 24-bit color support.
+export function toAnsi(input: string | ChatSpan[]): string {
+  let out = "";
+  for (const { text, style } of toSpans(input)) {
+    const codes: string[] = [];
+    if (style.bold) {
+      codes.push("1");
+    }
+    if (style.underline) {
+      codes.push("4");
+    }
+    if (style.strikethrough) {
+      codes.push("9");
+    }
+    if (style.color !== null) {
+      const value = Number.parseInt(style.color.slice(1), 16);
+      codes.push(`38;2;${value >> 16};${(value >> 8) & 0xff};${value & 0xff}`);
+    }
+    out += codes.length > 0 ? `\x1b[${codes.join(";")}m${text}\x1b[0m` : text;
+  }
+  return out;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Render as inline HTML; styled runs become `<span style="...">`.
+export function toHtml(input: string | ChatSpan[]): string {
+  let out = "";
+  for (const { text, style } of toSpans(input)) {
+    const declarations: string[] = [];
+    if (style.bold) {
+      declarations.push("font-weight:bold");
+    }
+    const decorations = [
+      style.underline ? "underline" : null,
+      style.strikethrough ? "line-through" : null,
+    ].filter((value) => value !== null);
+    if (decorations.length > 0) {
+      declarations.push(`text-decoration:${decorations.join(" ")}`);
+    }
+    if (style.color !== null) {
+      declarations.push(`color:${style.color}`);
+    }
+    const content = escapeHtml(text).replace(/\n/g, "<br>");
+    out +=
+      declarations.length > 0
+        ? `<span style="${declarations.join(";")}">${content}</span>`
+        : content;
+  }
+  return out;
+}
+
+// Escape markup characters so `text` is shown literally.
+export function escapeChatMarkup(text: string): string {
+  let out = "";
+  for (const char of text) {
+    out += MARKUP_CHARACTERS.has(char) ? `\\${char}` : char;
+  }
+  return out;
+}
+
+function normalizeColor(color: string): string {
+  const match = HEX_COLOR_PATTERN.exec(color);
+  if (!match) {
+    throw new RangeError(`Invalid chat color "${color}", expected #RRGGBB`);
+  }
+  return `#${match[1].toLowerCase()}`;
+}
+
+/**
+ * Composes an outgoing chat message.  Text passed to the builder is escaped,
+ * and every styled part is closed again, so parts never leak their style
+ * into each other.
+ */
+export class ChatMessageBuilder {
+  private markup = "";
+
+  text(text: string): this {
+    this.markup += escapeChatMarkup(text);
+    return this;
+  }
+
+  bold(text: string): this {
+    return this.styled(text, { bold: true });
+  }
+
+  underline(text: string): this {
+    return this.styled(text, { underline: true });
+  }
+
+  strikethrough(text: string): this {
+    return this.styled(text, { strikethrough: true });
+  }
+
+  color(color: string, text: string): this {
+    return this.styled(text, { color });
+  }
+
+  styled(text: string, style: Partial<ChatStyle>): this {
+    let close = "";
+    if (style.color) {
+      // Colors have no closing form; `§` resets everything at once.
+      close = "§";
+    } else {
+      close += style.strikethrough ? "~~" : "";
+      close += style.underline ? "__" : "";
+      close += style.bold ? "*" : "";
+    }
+    this.markup += `${openingChatMarkup(style)}${escapeChatMarkup(text)}${close}`;
+    return this;
+  }
+
+  // Append markup as is, without escaping or closing it.
+  raw(markup: string): this {
+    this.markup += markup;
+    return this;
+  }
+
+  toString(): string {
+    return this.markup;
+  }
+}
@@ -0,0 +1,237 @@
+import {
+  CHAT_QUEUE_BURST,
+  CHAT_QUEUE_MAX_BACKLOG,
+  CHAT_QUEUE_RATE,
+} from "./constants.js";
+import type { DeliveryCallback } from "./sendChannel.js";
+
+export const CHAT_PRIORITY = {
+  LOW: 0,
+  NORMAL: 1,
+  HIGH: 2,
+} as const;
+
+export type ChatPriority = (typeof CHAT_PRIORITY)[keyof typeof CHAT_PRIORITY];
+
+export interface ChatQueueOptions {
+  // Messages per second once the burst is used up (default: 1).
+  rate?: number;
+  // Messages that may be sent back to back after a quiet period (default: 3).
+  burst?: number;
+  // Messages waiting to be sent before new ones are refused (default: 50).
+  maxBacklog?: number;
+}
+
+export interface ChatQueueSendOptions {
+  // Higher priorities are sent first (default: CHAT_PRIORITY.NORMAL).
+  priority?: ChatPriority;
+  // Removes the message if it has not been sent yet.
+  signal?: AbortSignal;
+}
+
+export type ChatQueueErrorReason =
+  // The backlog was full and the message was not accepted.
+  | "backlogFull"
+  // A higher-priority message took the place of this one in a full backlog.
+  | "evicted"
+  // The message was sent but the session ended before it was acknowledged.
+  | "undelivered"
+  // The queue was cleared, e.g. by closing the connection.
+  | "cleared";
+
+export class ChatQueueError extends Error {
+  public readonly reason: ChatQueueErrorReason;
+
+  constructor(reason: ChatQueueErrorReason, message: string) {
+    super(message);
+    this.name = "ChatQueueError";
+    this.reason = reason;
+  }
+}
+
+// Hands a message to the transport.  `onDelivery` reports whether the server
+// acknowledged it.
+export type ChatTransmit = (
+  message: string,
+  onDelivery: DeliveryCallback,
+) => void;
+
+interface QueuedChat {
+  message: string;
+  priority: ChatPriority;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Paces outgoing chat with a token bucket.  Messages wait in a bounded
+ * backlog ordered by priority, and each send resolves once the server has
+ * acknowledged every packet carrying it.
+ */
+export class ChatQueue {
+  public readonly rate: number;
+  public readonly burst: number;
+  public readonly maxBacklog: number;
+  private readonly transmit: ChatTransmit;
+  private readonly backlog: QueuedChat[] = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer: NodeJS.Timeout | null = null;
+  private paused = false;
+
+  constructor(
+    transmit: ChatTransmit,
+    {
+      rate = CHAT_QUEUE_RATE,
+      burst = CHAT_QUEUE_BURST,
+      maxBacklog = CHAT_QUEUE_MAX_BACKLOG,
+    }: ChatQueueOptions = {},
+  ) {
+    if (!(rate > 0) || !(burst >= 1) || !(maxBacklog >= 0)) {
+      throw new RangeError("Invalid chat queue options");
+    }
+    this.transmit = transmit;
+    this.rate = rate;
+    this.burst = burst;
+    this.maxBacklog = maxBacklog;
+    this.tokens = burst;
+  }
+
+  get size(): number {
+    return this.backlog.length;
+  }
+
+  send(message: string, options: ChatQueueSendOptions = {}): Promise<void> {
+    const { priority = CHAT_PRIORITY.NORMAL, signal } = options;
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        const index = this.backlog.indexOf(entry);
+        if (index !== -1) {
+          this.backlog.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      const entry: QueuedChat = {
+        message,
+        priority,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener("abort", onAbort),
+      };
+      if (this.backlog.length >= this.maxBacklog && !this.evictFor(priority)) {
+        reject(
+          new ChatQueueError(
+            "backlogFull",
+            `Chat backlog is full (${this.maxBacklog} messages)`,
+          ),
+        );
+        return;
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      // Keep FIFO order within a priority level.
+      const index = this.backlog.findIndex(
+        (queued) => queued.priority < priority,
+      );
+      this.backlog.splice(index === -1 ? this.backlog.length : index, 0, entry);
+      this.pump();
+    });
+  }
+
+  // Hold messages back, e.g. while the connection is down.
+  pause(): void {
+    this.paused = true;
+    this.clearTimer();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.pump();
+  }
+
+  // Reject every message that has not been sent yet.
+  clear(
+    error: Error = new ChatQueueError("cleared", "Chat queue cleared"),
+  ): void {
+    this.clearTimer();
+    for (const entry of this.backlog.splice(0)) {
+      entry.cleanup();
+      entry.reject(error);
+    }
+  }
+
+  // Make room by dropping the newest message of the lowest priority below
+  // `priority`.
+  private evictFor(priority: ChatPriority): boolean {
+    const victim = this.backlog[this.backlog.length - 1];
+    if (!victim || victim.priority >= priority) {
+      return false;
+    }
+    this.backlog.pop();
+    victim.cleanup();
+    victim.reject(
+      new ChatQueueError(
+        "evicted",
+        "Chat message was dropped for a higher-priority message",
+      ),
+    );
+    return true;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.rate,
+    );
+    this.lastRefill = now;
+  }
+
+  private pump(): void {
+    if (this.paused) {
+      return;
+    }
+    this.clearTimer();
+    this.refill(Date.now());
+    while (this.backlog.length > 0 && this.tokens >= 1) {
+      const entry = this.backlog.shift() as QueuedChat;
+      entry.cleanup();
+      this.tokens -= 1;
+      try {
+        this.transmit(entry.message, (delivered) => {
+          if (delivered) {
+            entry.resolve();
+          } else {
+            entry.reject(
+              new ChatQueueError(
+                "undelivered",
+                "Chat message was not acknowledged before the session ended",
+              ),
+            );
+          }
+        });
+      } catch (err) {
+        // Invalid messages do not use up the rate limit.
+        this.tokens += 1;
+        entry.reject(err);
+      }
+    }
+    if (this.backlog.length > 0) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, waitMs);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
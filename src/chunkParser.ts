@@ -0,0 +1,196 @@
+import { Buffer } from "node:buffer";
+import { inflateRawSync } from "node:zlib";
+import type { Chunk, ChunkPosition, Vector3 } from "./connectionTypes.js";
+import {
+  CHUNK_COMPRESSION,
+  CHUNK_SHIFT,
+  CHUNK_SIZE,
+  CHUNK_VOLUME,
+  MTU,
+} from "./constants.js";
+
+// Header: [i32 base x][i32 base y][i32 base z][u16 render distance]
+const CHUNK_REQUEST_HEADER_SIZE = 4 * 3 + 2;
+// Entry: [i8 dx][i8 dy][i8 dz][u8 voxelSizeShift]
+const CHUNK_REQUEST_ENTRY_SIZE = 4;
+// Protocol ID byte plus a two byte varint length, as in chatFormat.ts.
+const MAX_CHUNK_REQUEST_BYTES = MTU - 5 - 1 - 2;
+const MAX_REQUESTS_PER_MESSAGE = Math.floor(
+  (MAX_CHUNK_REQUEST_BYTES - CHUNK_REQUEST_HEADER_SIZE) /
+    CHUNK_REQUEST_ENTRY_SIZE,
+);
+
+export function chunkKey(position: ChunkPosition): string {
+  return `${position.wx},${position.wy},${position.wz},${position.voxelSize}`;
+}
+
+export function chunkBlockIndex(x: number, y: number, z: number): number {
+  return (x << (CHUNK_SHIFT * 2)) | (y << CHUNK_SHIFT) | z;
+}
+
+// Returns the voxelSize=1 chunk containing the given world position.
+export function chunkPositionAt(position: Vector3): ChunkPosition {
+  const mask = ~(CHUNK_SIZE - 1);
+  return {
+    wx: Math.floor(position.x) & mask,
+    wy: Math.floor(position.y) & mask,
+    wz: Math.floor(position.z) & mask,
+    voxelSize: 1,
+  };
+}
+
+// All voxelSize=1 chunks whose origin lies within `renderDistance` chunks of
+// `center`, nearest first.
+export function chunksInRange(
+  center: ChunkPosition,
+  renderDistance: number,
+): ChunkPosition[] {
+  const positions: { position: ChunkPosition; distanceSq: number }[] = [];
+  const radius = Math.max(0, Math.floor(renderDistance));
+  for (let dx = -radius; dx <= radius; dx++) {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        const distanceSq = dx * dx + dy * dy + dz * dz;
+        if (distanceSq > radius * radius) {
+          continue;
+        }
+        positions.push({
+          position: {
+            wx: center.wx + dx * CHUNK_SIZE,
+            wy: center.wy + dy * CHUNK_SIZE,
+            wz: center.wz + dz * CHUNK_SIZE,
+            voxelSize: 1,
+          },
+          distanceSq,
+        });
+      }
+    }
+  }
+  positions.sort((a, b) => a.distanceSq - b.distanceSq);
+  return positions.map((entry) => entry.position);
+}
+
+// Encode chunk requests relative to `base`, split into as many messages as
+// needed to keep each one inside a single packet.
+export function encodeChunkRequests(
+  base: ChunkPosition,
+  renderDistance: number,
+  requests: ChunkPosition[],
+): Buffer[] {
+  const messages: Buffer[] = [];
+  for (let i = 0; i < requests.length; i += MAX_REQUESTS_PER_MESSAGE) {
+    const batch = requests.slice(i, i + MAX_REQUESTS_PER_MESSAGE);
+    const buffer = Buffer.alloc(
+      CHUNK_REQUEST_HEADER_SIZE + batch.length * CHUNK_REQUEST_ENTRY_SIZE,
+    );
+    let offset = 0;
+    buffer.writeInt32BE(base.wx, offset);
+    offset += 4;
+    buffer.writeInt32BE(base.wy, offset);
+    offset += 4;
+    buffer.writeInt32BE(base.wz, offset);
+    offset += 4;
+    buffer.writeUInt16BE(
+      Math.min(0xffff, Math.max(0, renderDistance * CHUNK_SIZE)),
+      offset,
+    );
+    offset += 2;
+    for (const request of batch) {
+      const voxelSizeShift = Math.log2(request.voxelSize) | 0;
+      const shift = voxelSizeShift + CHUNK_SHIFT;
+      buffer.writeInt8((request.wx - base.wx) >> shift, offset);
+      buffer.writeInt8((request.wy - base.wy) >> shift, offset + 1);
+      buffer.writeInt8((request.wz - base.wz) >> shift, offset + 2);
+      buffer.writeUInt8(voxelSizeShift, offset + 3);
+      offset += CHUNK_REQUEST_ENTRY_SIZE;
+    }
+    messages.push(buffer);
+  }
+  return messages;
+}
+
+// Chunk transmission payload:
+// [i32 wx][i32 wy][i32 wz][i32 voxelSize][u32 compression][compressed data]
+export function parseChunkTransmission(payload: Buffer): Chunk {
+  if (payload.length < 20) {
+    throw new Error("Chunk transmission payload too short");
+  }
+  const position: ChunkPosition = {
+    wx: payload.readInt32BE(0),
+    wy: payload.readInt32BE(4),
+    wz: payload.readInt32BE(8),
+    voxelSize: payload.readInt32BE(12),
+  };
+  const algorithm = payload.readUInt32BE(16);
+  const data = payload.slice(20);
+  return { position, blocks: decompressChunkBlocks(algorithm, data) };
+}
+
+// Inflate exactly `length` bytes.  Longer output is refused before it is
+// allocated, so a small payload cannot inflate into a huge buffer.
+function inflateChunkData(data: Buffer, length: number, what: string): Buffer {
+  let raw: Buffer;
+  try {
+    raw = inflateRawSync(data, { maxOutputLength: length });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(`More than ${length} bytes of ${what}`);
+    }
+    throw err;
+  }
+  if (raw.length !== length) {
+    throw new Error(`Expected ${length} bytes of ${what}, got ${raw.length}`);
+  }
+  return raw;
+}
+
+function decompressChunkBlocks(algorithm: number, data: Buffer): Uint32Array {
+  const blocks = new Uint32Array(CHUNK_VOLUME);
+  switch (algorithm) {
+    case CHUNK_COMPRESSION.UNIFORM: {
+      if (data.length < 4) {
+        throw new Error("Uniform chunk payload too short");
+      }
+      blocks.fill(data.readUInt32BE(0));
+      return blocks;
+    }
+    case CHUNK_COMPRESSION.DEFLATE: {
+      const raw = inflateChunkData(data, CHUNK_VOLUME * 4, "chunk data");
+      for (let i = 0; i < CHUNK_VOLUME; i++) {
+        blocks[i] = raw.readUInt32BE(i * 4);
+      }
+      return blocks;
+    }
+    case CHUNK_COMPRESSION.DEFLATE_WITH_8BIT_PALETTE: {
+      // [u8 paletteLength][paletteLength × u32 block][deflate(u8 indices)]
+      if (data.length < 1) {
+        throw new Error("Palette chunk payload too short");
+      }
+      const paletteLength = data[0];
+      let offset = 1;
+      if (offset + paletteLength * 4 > data.length) {
+        throw new Error("Palette chunk payload truncated (palette)");
+      }
+      const palette = new Uint32Array(paletteLength);
+      for (let i = 0; i < paletteLength; i++) {
+        palette[i] = data.readUInt32BE(offset);
+        offset += 4;
+      }
+      const indices = inflateChunkData(
+        data.slice(offset),
+        CHUNK_VOLUME,
+        "chunk palette indices",
+      );
+      for (let i = 0; i < CHUNK_VOLUME; i++) {
+        const index = indices[i];
+        if (index >= paletteLength) {
+          throw new Error(`Chunk palette index ${index} out of range`);
+        }
+        blocks[i] = palette[index];
+      }
+      return blocks;
+    }
+    default:
+      throw new Error(`Unsupported chunk compression algorithm ${algorithm}`);
+  }
+}
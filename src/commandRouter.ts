@@ -0,0 +1,586 @@
+import { EventEmitter } from "node:events";
+import type { CubyzConnection } from "./connection.js";
+import type { Vector3 } from "./connectionTypes.js";
+
+// The server relays player chat as `[name§#ffffff] message`, where `name`
+// keeps the player's own formatting.  Anything else is a server message.
+const PLAYER_CHAT_SEPARATOR = "§#ffffff] ";
+
+export interface ChatLine {
+  // Null for server messages (join notices, command output, ...).
+  sender: string | null;
+  text: string;
+}
+
+// Only names in `playerNames` count as senders, longest first, so a player
+// cannot pose as someone else by putting the separator in their message.
+export function parseChatLine(
+  message: string,
+  playerNames: readonly string[],
+): ChatLine {
+  if (message.startsWith("[")) {
+    const names = [...playerNames].sort((a, b) => b.length - a.length);
+    for (const name of names) {
+      const prefix = `[${name}${PLAYER_CHAT_SEPARATOR}`;
+      if (message.startsWith(prefix)) {
+        return { sender: name, text: message.slice(prefix.length) };
+      }
+    }
+  }
+  return { sender: null, text: message };
+}
+
+// Thrown by argument parsers and command handlers; the message is sent back
+// to the player who ran the command.
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+// Split a command line into arguments.  Single or double quotes group words,
+// and a backslash escapes the next character.
+export function tokenizeCommand(input: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: string | null = null;
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (char === "\\" && i + 1 < input.length) {
+      i += 1;
+      current += input[i];
+      inToken = true;
+    } else if (quote !== null) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = "";
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+  if (quote !== null) {
+    throw new CommandError(`Unterminated ${quote} quote`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+export interface ArgumentContext {
+  sender: string;
+  connection: CubyzConnection;
+}
+
+type ArgumentParser<T> = (tokens: string[], context: ArgumentContext) => T;
+
+/**
+ * A typed command argument.  Built with the `arg` helpers; `arity` is the
+ * number of tokens it consumes, or "rest" for everything that is left.
+ */
+export class CommandArgument<T> {
+  public readonly arity: number | "rest";
+  public readonly isOptional: boolean;
+  private readonly parser: ArgumentParser<T>;
+  private readonly placeholder: string | null;
+
+  constructor(
+    arity: number | "rest",
+    parser: ArgumentParser<T>,
+    isOptional = false,
+    placeholder: string | null = null,
+  ) {
+    this.arity = arity;
+    this.parser = parser;
+    this.isOptional = isOptional;
+    this.placeholder = placeholder;
+  }
+
+  parse(tokens: string[], context: ArgumentContext): T {
+    return this.parser(tokens, context);
+  }
+
+  // Usage text for an argument called `name`, e.g. `<target>` or `[count]`.
+  usage(name: string): string {
+    const label =
+      this.arity === "rest"
+        ? `${name}...`
+        : this.placeholder !== null
+          ? `${name}: ${this.placeholder}`
+          : name;
+    return this.isOptional ? `[${label}]` : `<${label}>`;
+  }
+
+  optional(): CommandArgument<T | undefined> {
+    return new CommandArgument<T | undefined>(
+      this.arity,
+      (tokens, context) =>
+        tokens.length === 0 ? undefined : this.parser(tokens, context),
+      true,
+      this.placeholder,
+    );
+  }
+
+  // Use `fallback` when the argument is left out.
+  default(fallback: T): CommandArgument<T> {
+    return new CommandArgument<T>(
+      this.arity,
+      (tokens, context) =>
+        tokens.length === 0 ? fallback : this.parser(tokens, context),
+      true,
+      this.placeholder,
+    );
+  }
+}
+
+interface RangeOptions {
+  min?: number;
+  max?: number;
+}
+
+function checkRange(value: number, { min, max }: RangeOptions): number {
+  if (min !== undefined && value < min) {
+    throw new CommandError(`${value} is below the minimum of ${min}`);
+  }
+  if (max !== undefined && value > max) {
+    throw new CommandError(`${value} is above the maximum of ${max}`);
+  }
+  return value;
+}
+
+function parseNumber(token: string): number {
+  const value = token.trim() === "" ? Number.NaN : Number(token);
+  if (!Number.isFinite(value)) {
+    throw new CommandError(`"${token}" is not a number`);
+  }
+  return value;
+}
+
+function string(): CommandArgument<string> {
+  return new CommandArgument(1, ([token]) => token);
+}
+
+// The remaining arguments joined by single spaces.
+function rest(): CommandArgument<string> {
+  return new CommandArgument("rest", (tokens) => tokens.join(" "));
+}
+
+function int(options: RangeOptions = {}): CommandArgument<number> {
+  return new CommandArgument(1, ([token]) => {
+    const value = parseNumber(token);
+    if (!Number.isInteger(value)) {
+      throw new CommandError(`"${token}" is not a whole number`);
+    }
+    return checkRange(value, options);
+  });
+}
+
+function number(options: RangeOptions = {}): CommandArgument<number> {
+  return new CommandArgument(1, ([token]) =>
+    checkRange(parseNumber(token), options),
+  );
+}
+
+function oneOf<const T extends string>(
+  values: readonly T[],
+): CommandArgument<T> {
+  return new CommandArgument(
+    1,
+    ([token]) => {
+      const match = values.find(
+        (value) => value.toLowerCase() === token.toLowerCase(),
+      );
+      if (match === undefined) {
+        throw new CommandError(
+          `"${token}" must be one of ${values.join(", ")}`,
+        );
+      }
+      return match;
+    },
+    false,
+    values.join("|"),
+  );
+}
+
+// An online player.  Exact names (ignoring case) win; otherwise the token
+// must be the prefix of exactly one name.
+function player(): CommandArgument<string> {
+  return new CommandArgument(1, ([token], { connection }) => {
+    const names = connection.getPlayerNames();
+    const needle = token.toLowerCase();
+    const exact = names.find((name) => name.toLowerCase() === needle);
+    if (exact !== undefined) {
+      return exact;
+    }
+    const matches = names.filter((name) =>
+      name.toLowerCase().startsWith(needle),
+    );
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      throw new CommandError(
+        `"${token}" matches several players: ${matches.join(", ")}`,
+      );
+    }
+    throw new CommandError(`No player named "${token}" is online`);
+  });
+}
+
+// Three numbers.  `~` and `~n` are relative to the bot's own position.
+function coords(): CommandArgument<Vector3> {
+  return new CommandArgument(
+    3,
+    (tokens, { connection }) => {
+      const origin = connection.getPlayerState().position;
+      const [x, y, z] = tokens.map((token, index) => {
+        if (!token.startsWith("~")) {
+          return parseNumber(token);
+        }
+        const base = [origin.x, origin.y, origin.z][index];
+        return token.length === 1 ? base : base + parseNumber(token.slice(1));
+      });
+      return { x, y, z };
+    },
+    false,
+    "x y z",
+  );
+}
+
+export const arg = {
+  string,
+  rest,
+  int,
+  number,
+  oneOf,
+  player,
+  coords,
+};
+
+export type ArgumentShape = Record<string, CommandArgument<unknown>>;
+
+export type InferArguments<A extends ArgumentShape> = {
+  [K in keyof A]: A[K] extends CommandArgument<infer T> ? T : never;
+};
+
+export interface CommandContext {
+  sender: string;
+  // Canonical name of the command, even when invoked by an alias.
+  command: string;
+  // Everything after the command name, unparsed.
+  input: string;
+  connection: CubyzConnection;
+  reply(message: string): void;
+}
+
+export interface CommandDefinition<A extends ArgumentShape> {
+  name: string;
+  aliases?: string[];
+  description?: string;
+  // Parsed in declaration order.
+  args?: A;
+  // Milliseconds a player has to wait between uses.
+  cooldown?: number;
+  // Player names allowed to run the command, or a predicate.  Names are
+  // compared as the server sends them.  Everyone may run it when omitted.
+  permission?: string[] | ((sender: string) => boolean);
+  // Leave the command out of the help listing.
+  hidden?: boolean;
+  run(context: CommandContext, args: InferArguments<A>): void | Promise<void>;
+}
+
+export interface CommandRouterOptions {
+  // Default: "!".
+  prefix?: string;
+  // Name of the built-in help command, or false to disable it.
+  // Default: "help".
+  help?: string | false;
+  // Ignore commands sent by the bot itself (default: true).
+  ignoreSelf?: boolean;
+}
+
+export type CommandRouterEvents = {
+  // A command ran to completion.
+  command: [CommandContext];
+  // A handler or permission predicate threw something other than a
+  // CommandError.  The player is told the command failed; the error itself
+  // is only reported here.
+  commandError: [unknown, CommandContext];
+};
+
+interface RegisteredCommand {
+  definition: CommandDefinition<ArgumentShape>;
+  lastUsed: Map<string, number>;
+}
+
+/**
+ * Dispatches `!commands` typed in chat to registered handlers.  Arguments are
+ * tokenized and parsed with the `arg` helpers, and problems (bad arguments,
+ * missing permission, cooldowns) are answered in chat.
+ */
+export class CommandRouter extends EventEmitter {
+  public readonly prefix: string;
+  private readonly connection: CubyzConnection;
+  private readonly ignoreSelf: boolean;
+  private readonly commands = new Map<string, RegisteredCommand>();
+  private readonly aliases = new Map<string, string>();
+  private readonly chatListener = (message: string) => {
+    const { sender, text } = parseChatLine(
+      message,
+      this.connection.getPlayerNames(),
+    );
+    if (sender !== null) {
+      void this.dispatch(sender, text);
+    }
+  };
+
+  constructor(
+    connection: CubyzConnection,
+    {
+      prefix = "!",
+      help = "help",
+      ignoreSelf = true,
+    }: CommandRouterOptions = {},
+  ) {
+    super();
+    this.connection = connection;
+    this.prefix = prefix;
+    this.ignoreSelf = ignoreSelf;
+    if (help !== false) {
+      this.command({
+        name: help,
+        description: "List commands or show how to use one",
+        args: { command: arg.string().optional() },
+        run: (context, { command }) => this.replyHelp(context, command),
+      });
+    }
+    connection.on("chat", this.chatListener);
+  }
+
+  on<K extends keyof CommandRouterEvents>(
+    event: K,
+    listener: (...args: CommandRouterEvents[K]) => void,
+  ): this {
+    return super.on(event, listener);
+  }
+
+  once<K extends keyof CommandRouterEvents>(
+    event: K,
+    listener: (...args: CommandRouterEvents[K]) => void,
+  ): this {
+    return super.once(event, listener);
+  }
+
+  off<K extends keyof CommandRouterEvents>(
+    event: K,
+    listener: (...args: CommandRouterEvents[K]) => void,
+  ): this {
+    return super.off(event, listener);
+  }
+
+  emit<K extends keyof CommandRouterEvents>(
+    event: K,
+    ...args: CommandRouterEvents[K]
+  ): boolean {
+    return super.emit(event, ...args);
+  }
+
+  command<A extends ArgumentShape>(definition: CommandDefinition<A>): this {
+    const name = definition.name.toLowerCase();
+    for (const key of [name, ...(definition.aliases ?? [])]) {
+      const lower = key.toLowerCase();
+      if (this.commands.has(lower) || this.aliases.has(lower)) {
+        throw new Error(`Command "${key}" is already registered`);
+      }
+    }
+    this.commands.set(name, {
+      definition: definition as unknown as CommandDefinition<ArgumentShape>,
+      lastUsed: new Map(),
+    });
+    for (const alias of definition.aliases ?? []) {
+      this.aliases.set(alias.toLowerCase(), name);
+    }
+    return this;
+  }
+
+  // Stop listening to chat.
+  dispose(): void {
+    this.connection.off("chat", this.chatListener);
+  }
+
+  // Usage line for a command, e.g. `!give <target> [count]`.
+  usage(name: string): string | null {
+    const command = this.lookup(name);
+    if (!command) {
+      return null;
+    }
+    const { definition } = command;
+    const args = Object.entries(definition.args ?? {}).map(([key, argument]) =>
+      argument.usage(key),
+    );
+    return [`${this.prefix}${definition.name}`, ...args].join(" ");
+  }
+
+  // Run `text` as if `sender` typed it in chat.  Resolves to false when it
+  // is not a command for this router.
+  async dispatch(sender: string, text: string): Promise<boolean> {
+    if (!text.startsWith(this.prefix)) {
+      return false;
+    }
+    if (this.ignoreSelf && sender === this.connection.name) {
+      return false;
+    }
+    const line = text.slice(this.prefix.length);
+    const name = /^\S*/.exec(line)?.[0] ?? "";
+    const command = this.lookup(name);
+    if (!command) {
+      return false;
+    }
+    const { definition } = command;
+    const context: CommandContext = {
+      sender,
+      command: definition.name,
+      input: line.slice(name.length).trim(),
+      connection: this.connection,
+      // Replies share the chat rate limit; one that cannot be delivered is
+      // dropped.
+      reply: (message) => {
+        this.connection.queueChat(message).catch(() => {});
+      },
+    };
+
+    // A permission predicate may throw as well, so it runs inside the try.
+    try {
+      if (!this.isAllowed(definition, sender)) {
+        context.reply(
+          `You are not allowed to use ${this.prefix}${definition.name}`,
+        );
+        return true;
+      }
+      const now = Date.now();
+      const lastUsed = command.lastUsed.get(sender);
+      if (
+        definition.cooldown !== undefined &&
+        lastUsed !== undefined &&
+        now - lastUsed < definition.cooldown
+      ) {
+        const seconds = Math.ceil(
+          (definition.cooldown - (now - lastUsed)) / 1000,
+        );
+        context.reply(
+          `${this.prefix}${definition.name} is on cooldown for ${seconds}s`,
+        );
+        return true;
+      }
+      const args = this.parseArguments(definition, context);
+      command.lastUsed.set(sender, now);
+      await definition.run(context, args);
+      this.emit("command", context);
+    } catch (err) {
+      if (err instanceof CommandError) {
+        context.reply(err.message);
+      } else {
+        context.reply(`${this.prefix}${definition.name} failed`);
+        this.emit("commandError", err, context);
+      }
+    }
+    return true;
+  }
+
+  private lookup(name: string): RegisteredCommand | undefined {
+    const lower = name.toLowerCase();
+    return this.commands.get(this.aliases.get(lower) ?? lower);
+  }
+
+  private isAllowed(
+    definition: CommandDefinition<ArgumentShape>,
+    sender: string,
+  ): boolean {
+    const { permission } = definition;
+    if (permission === undefined) {
+      return true;
+    }
+    return typeof permission === "function"
+      ? permission(sender)
+      : permission.includes(sender);
+  }
+
+  private parseArguments(
+    definition: CommandDefinition<ArgumentShape>,
+    context: CommandContext,
+  ): InferArguments<ArgumentShape> {
+    const tokens = tokenizeCommand(context.input);
+    const argumentContext: ArgumentContext = {
+      sender: context.sender,
+      connection: this.connection,
+    };
+    const out: Record<string, unknown> = {};
+    let offset = 0;
+    for (const [key, argument] of Object.entries(definition.args ?? {})) {
+      const count =
+        argument.arity === "rest" ? tokens.length - offset : argument.arity;
+      const slice = tokens.slice(offset, offset + count);
+      if (slice.length === 0 || slice.length < count) {
+        if (!argument.isOptional) {
+          throw new CommandError(
+            `Missing ${argument.usage(key)}. Usage: ${this.usage(definition.name)}`,
+          );
+        }
+        out[key] = argument.parse([], argumentContext);
+        continue;
+      }
+      out[key] = argument.parse(slice, argumentContext);
+      offset += count;
+    }
+    if (offset < tokens.length) {
+      throw new CommandError(
+        `Too many arguments. Usage: ${this.usage(definition.name)}`,
+      );
+    }
+    return out;
+  }
+
+  private replyHelp(context: CommandContext, name: string | undefined): void {
+    if (name !== undefined) {
+      const command = this.lookup(
+        name.startsWith(this.prefix) ? name.slice(this.prefix.length) : name,
+      );
+      if (!command || !this.isAllowed(command.definition, context.sender)) {
+        throw new CommandError(`Unknown command "${name}"`);
+      }
+      const { definition } = command;
+      const aliases = definition.aliases?.length
+        ? ` (aliases: ${definition.aliases.join(", ")})`
+        : "";
+      const description = definition.description
+        ? ` - ${definition.description}`
+        : "";
+      context.reply(`${this.usage(definition.name)}${description}${aliases}`);
+      return;
+    }
+    const names = [...this.commands.values()]
+      .map(({ definition }) => definition)
+      .filter(
+        (definition) =>
+          !definition.hidden && this.isAllowed(definition, context.sender),
+      )
+      .map((definition) => `${this.prefix}${definition.name}`);
+    context.reply(
+      `Commands: ${names.join(", ")}. Use ${this.prefix}${context.command} <command> for details.`,
+    );
+  }
+}
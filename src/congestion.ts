@@ -0,0 +1,126 @@
+import {
+  CONGESTION_INITIAL_WINDOW,
+  CONGESTION_MAX_BACKOFF,
+  CONGESTION_MAX_WINDOW,
+  CONGESTION_MIN_WINDOW,
+  MTU,
+} from "./constants.js";
+import { RttEstimator, type RttEstimatorOptions } from "./rttEstimator.js";
+
+export interface CongestionOptions extends RttEstimatorOptions {
+  // Bytes that may be unacknowledged at the start (default: 4 packets).
+  initialWindow?: number;
+  // The window never shrinks below this (default: 2 packets).
+  minWindow?: number;
+  // Nor grows above this; Infinity disables the limit (default: 64 packets).
+  maxWindow?: number;
+  // Consecutive timeouts that double the resend timeout (default: 6).
+  maxBackoff?: number;
+}
+
+/**
+ * Resend timing and congestion window shared by the sequenced channels of a
+ * connection.  The resend timeout follows the RTT estimate and doubles after
+ * each timeout without an ack in between; the window grows by slow start and
+ * then additively, and collapses after a timeout, as in TCP Reno.
+ */
+export class CongestionController {
+  public readonly rtt: RttEstimator;
+  private readonly initialWindow: number;
+  private readonly minWindow: number;
+  private readonly maxWindow: number;
+  private readonly maxBackoff: number;
+  private windowBytes: number;
+  private slowStartThreshold = Number.POSITIVE_INFINITY;
+  private inFlight = 0;
+  private backoffCount = 0;
+  private lastLossAt = Number.NEGATIVE_INFINITY;
+
+  constructor({
+    initialWindow = CONGESTION_INITIAL_WINDOW,
+    minWindow = CONGESTION_MIN_WINDOW,
+    maxWindow = CONGESTION_MAX_WINDOW,
+    maxBackoff = CONGESTION_MAX_BACKOFF,
+    ...rttOptions
+  }: CongestionOptions = {}) {
+    this.rtt = new RttEstimator(rttOptions);
+    this.minWindow = Math.max(MTU, minWindow);
+    this.maxWindow = Math.max(this.minWindow, maxWindow);
+    this.initialWindow = this.clampWindow(initialWindow);
+    this.maxBackoff = Math.max(0, maxBackoff);
+    this.windowBytes = this.initialWindow;
+  }
+
+  // Bytes that may be unacknowledged at once.
+  get window(): number {
+    return this.windowBytes;
+  }
+
+  get bytesInFlight(): number {
+    return this.inFlight;
+  }
+
+  // Consecutive timeouts since the last ack.
+  get backoff(): number {
+    return this.backoffCount;
+  }
+
+  // How long to wait for an ack before resending.
+  get resendTimeout(): number {
+    return Math.min(this.rtt.maxRto, this.rtt.rto * 2 ** this.backoffCount);
+  }
+
+  // A packet may always be sent when nothing is in flight, so a window
+  // smaller than one packet cannot stall the connection.
+  canSend(bytes: number): boolean {
+    return this.inFlight === 0 || this.inFlight + bytes <= this.windowBytes;
+  }
+
+  onSent(bytes: number): void {
+    this.inFlight += bytes;
+  }
+
+  // `rttSample` is omitted for resent packets (Karn's algorithm).
+  onAcked(bytes: number, rttSample?: number): void {
+    this.inFlight = Math.max(0, this.inFlight - bytes);
+    this.backoffCount = 0;
+    if (rttSample !== undefined) {
+      this.rtt.addSample(rttSample);
+    }
+    const growth =
+      this.windowBytes < this.slowStartThreshold
+        ? bytes
+        : (MTU * bytes) / this.windowBytes;
+    this.windowBytes = this.clampWindow(this.windowBytes + growth);
+  }
+
+  // A packet timed out and is being resent.  Several packets lost together
+  // count as one loss, so the window is only cut once per resend timeout.
+  onTimeout(now: number): void {
+    if (now - this.lastLossAt < this.resendTimeout) {
+      return;
+    }
+    this.lastLossAt = now;
+    this.slowStartThreshold = this.clampWindow(this.windowBytes / 2);
+    this.windowBytes = this.minWindow;
+    this.backoffCount = Math.min(this.maxBackoff, this.backoffCount + 1);
+  }
+
+  // Packets that will never be acked, e.g. because the session ended.
+  onAbandoned(bytes: number): void {
+    this.inFlight = Math.max(0, this.inFlight - bytes);
+  }
+
+  reset(): void {
+    this.rtt.reset();
+    this.windowBytes = this.initialWindow;
+    this.slowStartThreshold = Number.POSITIVE_INFINITY;
+    this.inFlight = 0;
+    this.backoffCount = 0;
+    this.lastLossAt = Number.NEGATIVE_INFINITY;
+  }
+
+  private clampWindow(bytes: number): number {
+    return Math.min(this.maxWindow, Math.max(this.minWindow, bytes));
+  }
+}
@@ -2,6 +2,8 @@ import { Buffer } from "node:buffer";
 import { randomInt } from "node:crypto";
 import dgram from "node:dgram";
 import { EventEmitter } from "node:events";
+import { setTimeout as delay } from "node:timers/promises";
+import { type AssetTree, loadAssets } from "./assets.js";
 import {
   type Identity,
   loadOrCreateIdentity,
@@ -10,11 +12,25 @@ import {
   signP256,
 } from "./authentication.js";
 import { decodeVarInt, readInt32BE, writeInt32BE } from "./binary.js";
-import { prepareChatMessage } from "./chatFormat.js";
+import { prepareChatMessage, splitChatMessage } from "./chatFormat.js";
+import { ChatQueue, type ChatQueueSendOptions } from "./chatQueue.js";
 import {
+  chunkKey,
+  chunkPositionAt,
+  chunksInRange,
+  encodeChunkRequests,
+  parseChunkTransmission,
+} from "./chunkParser.js";
+import { CongestionController } from "./congestion.js";
+import {
+  type AuthFailedEvent,
+  type AuthFailureReason,
   type BlockUpdate,
+  type ChannelStats,
+  type Chunk,
   type CloseOptions,
   type ConnectionState,
+  type ConnectionStats,
   type CubyzConnectionEvents,
   type CubyzConnectionLogger,
   type CubyzConnectionOptions,
@@ -22,6 +38,8 @@ import {
   type DisconnectEvent,
   type EntityPositionPacket,
   type EntitySnapshot,
+  type EventIteratorOptions,
+  GAMEMODE,
   type Gamemode,
   GENERIC_UPDATE_TYPE,
   type ItemSnapshot,
@@ -30,42 +48,81 @@ import {
   type PendingConfirmation,
   type PlayerData,
   type PlayerState,
+  type PositionCorrectedEvent,
+  type RaycastHit,
+  type ReconnectOptions,
+  type SendChatLongOptions,
+  type SignaturePolicy,
+  type StartOptions,
+  type Vector3,
+  type WaitForOptions,
   WORLD_EDIT_POSITION,
 } from "./connectionTypes.js";
 import {
   AWAITING_SERVER_TIMEOUT_MS,
   CHANNEL,
+  CHAT_SPLIT_INTERVAL_MS,
+  CHUNK_REQUEST_TIMEOUT_MS,
+  CHUNK_SIZE,
   CONFIRMATION_BATCH_SIZE,
   DEFAULT_VERSION,
   HANDSHAKE_STATE,
   INIT_RESEND_INTERVAL_MS,
   KEEP_ALIVE_INTERVAL_MS,
   KEEP_ALIVE_TIMEOUT_MS,
+  MAX_PACKETS_PER_TICK,
+  PLAYER_EYE_OFFSET,
   PROTOCOL,
+  RECONNECT_INITIAL_DELAY_MS,
+  RECONNECT_JITTER,
+  RECONNECT_MAX_DELAY_MS,
+  RECONNECT_MULTIPLIER,
   type SequencedChannelId,
+  STATS_INTERVAL_MS,
 } from "./constants.js";
 import { parseEntityPositionPacket } from "./entityParser.js";
 import {
   buildHandshakePayload,
+  encodeSignatureResponse,
+  isSignatureAlgorithm,
   parseHandshake,
+  parseSignatureRequest,
   randomSequence,
+  SIGNATURE_ALGORITHMS,
+  type SignatureAlgorithm,
+  type SignatureRequest,
+  type SignatureResponse,
 } from "./handshakeUtils.js";
+import { type MovementInput, PlayerPhysics } from "./physics.js";
+import { raycastBlocks } from "./raycast.js";
 import { parseChannelPacket, ReceiveChannel } from "./receiveChannel.js";
+import { BiomeRegistry, BlockRegistry, ItemRegistry } from "./registry.js";
 import { SecureChannelHandler } from "./secureChannel.js";
 import { SendChannel } from "./sendChannel.js";
+import { parseServerData, type ServerData } from "./serverData.js";
+import { World } from "./world.js";
 import { parseZon, type ZonValue } from "./zon.js";
+import { formatZonPath, z } from "./zonSchema.js";
 
 // Re-export types for backward compatibility
 export type {
+  AuthFailedEvent,
+  AuthFailureReason,
   BiomeUpdate,
   BlockUpdate,
+  ChannelStats,
+  Chunk,
+  ChunkPosition,
   ClearUpdate,
   CloseOptions,
+  ConnectionState,
+  ConnectionStats,
   CubyzConnectionLogger,
   CubyzConnectionOptions,
   DisconnectEvent,
   EntityPositionPacket,
   EntitySnapshot,
+  EventIteratorOptions,
   Gamemode,
   GamemodeUpdate,
   GenericUpdate,
@@ -75,14 +132,64 @@ export type {
   PlayerData,
   PlayerState,
   PlayersEvent,
+  PositionCorrectedEvent,
   ProtocolEvent,
+  RaycastHit,
+  ReconnectedEvent,
+  ReconnectFailedEvent,
+  ReconnectingEvent,
+  ReconnectOptions,
+  SendChatLongOptions,
+  SignaturePolicy,
+  StartOptions,
   TeleportUpdate,
   TimeUpdate,
   Vector3,
+  WaitForOptions,
   WorldEditPosUpdate,
 } from "./connectionTypes.js";
 export { GAMEMODE } from "./connectionTypes.js";
 
+// Rejects pending waitFor() calls when the connection ends for good.
+export class ConnectionClosedError extends Error {
+  public readonly reason:
+    | DisconnectEvent["reason"]
+    | "closed"
+    | "reconnectFailed";
+
+  constructor(reason: ConnectionClosedError["reason"]) {
+    super(`Connection closed (${reason})`);
+    this.name = "ConnectionClosedError";
+    this.reason = reason;
+  }
+}
+
+export class WaitForTimeoutError extends Error {
+  public readonly event: string;
+  public readonly timeout: number;
+
+  constructor(event: string, timeout: number) {
+    super(`Timed out after ${timeout} ms waiting for "${event}"`);
+    this.name = "WaitForTimeoutError";
+    this.event = event;
+    this.timeout = timeout;
+  }
+}
+
+// Entity updates are a tuple of player entries, a null separator and item
+// drop entries.  Player entries are removals (the numeric ID) or additions.
+const ENTITY_UPDATE_SCHEMA = z.array(z.any());
+
+const PLAYER_ENTRY_SCHEMA = z.union([
+  z.int(),
+  z.object({ id: z.int(), name: z.string().nullable().optional() }),
+]);
+
+// Server positions closer than this to the prediction are not corrections.
+const POSITION_CORRECTION_EPSILON = 1e-3;
+// A stalled timer must not turn into one huge physics step.
+const MAX_PHYSICS_STEP_MS = 500;
+
 export class CubyzConnection extends EventEmitter {
   public readonly host: string;
   public readonly port: number;
@@ -90,12 +197,12 @@ export class CubyzConnection extends EventEmitter {
   public readonly version: string;
   private readonly baseLogger: CubyzConnectionLogger;
   private readonly logLevel: LogLevel;
-  private readonly socket: dgram.Socket;
-  private readonly connectionId: bigint;
+  private socket!: dgram.Socket;
+  private connectionId = 0n;
   private remoteConnectionId: bigint | null = null;
   private state: ConnectionState = "awaitingServer";
   private handshakeComplete = false;
-  private readonly sendChannels: Record<SequencedChannelId, SendChannel>;
+  private sendChannels!: Record<SequencedChannelId, SendChannel>;
   private readonly receiveChannels = new Map<
     SequencedChannelId,
     ReceiveChannel
@@ -104,17 +211,49 @@ export class CubyzConnection extends EventEmitter {
   private readonly playerMap = new Map<number | string, string | null>();
   private readonly entityStates = new Map<number, EntitySnapshot>();
   private readonly itemStates = new Map<number, ItemSnapshot>();
+  private readonly world = new World();
+  private readonly renderDistance: number;
+  private lastChunkCenter: string | null = null;
+  // Chunks requested but not received yet, by chunk key, with the time of
+  // the request.
+  private readonly pendingChunkRequests = new Map<string, number>();
+  private readonly assetCacheDir: string | null;
+  private assets: AssetTree | null = null;
+  private blockRegistry = new BlockRegistry([]);
+  private itemRegistry = new ItemRegistry([]);
+  private biomeRegistry = new BiomeRegistry([]);
+  private serverData: ServerData | null = null;
+  // Secure messages are handled one at a time so that asynchronous steps
+  // (signing, asset decoding) never reorder the handshake.
+  private secureMessageChain: Promise<void> = Promise.resolve();
   private lastKeepAliveSent = Date.now();
   private lastInbound = Date.now();
   private lastInitSent = 0;
   private tickTimer: NodeJS.Timeout | null = null;
   private playerStateTimer: NodeJS.Timeout | null = null;
-  private readonly playerState: PlayerState = {
+  private playerState: PlayerState = {
     position: { x: 0, y: 0, z: 0 },
     velocity: { x: 0, y: 0, z: 0 },
     rotation: { x: 0, y: 0, z: 0 },
   };
   private lastPlayerStateSent = 0;
+  // Last position the server sent (spawn or teleport), as opposed to the
+  // locally predicted one in playerState.
+  private confirmedPosition: Vector3 | null = null;
+  private gamemode: Gamemode | null = null;
+  private readonly physics: PlayerPhysics | null;
+  private movementInput: MovementInput = {};
+  private onGround = false;
+  private lastPhysicsStep = 0;
+  private readonly congestion: CongestionController;
+  private readonly statsInterval: number;
+  private lastStatsEmitted = 0;
+  private traffic = {
+    bytesSent: 0,
+    bytesReceived: 0,
+    datagramsSent: 0,
+    datagramsReceived: 0,
+  };
   private disconnectSent = false;
   private disconnectEmitted = false;
   private initSent = false;
@@ -122,6 +261,18 @@ export class CubyzConnection extends EventEmitter {
   private readonly identityFile: string;
   private identity: Identity | null = null;
   private secureChannel: SecureChannelHandler | null = null;
+  private readonly reconnectPolicy: Required<ReconnectOptions> | null;
+  private readonly signaturePolicy: Required<SignaturePolicy>;
+  private readonly chatQueue: ChatQueue;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempt = 0;
+  private restoredPlayerState: PlayerState | null = null;
+  private stopped = false;
+  // Why the connection ended for good, until the next start().
+  private closedError: ConnectionClosedError | null = null;
+  // Pending waitFor() calls and event iterators, settled when the connection
+  // ends without a reconnect to follow.
+  private readonly waiters = new Set<(error: Error) => void>();
 
   constructor({
     host,
@@ -131,6 +282,14 @@ export class CubyzConnection extends EventEmitter {
     logger = console,
     logLevel = "error",
     identityFile = "./cubyz-identity.txt",
+    reconnect = false,
+    renderDistance = 0,
+    assetCacheDir,
+    signaturePolicy,
+    chatQueue,
+    statsInterval = STATS_INTERVAL_MS,
+    congestion,
+    physics = false,
   }: CubyzConnectionOptions) {
     super();
     this.host = host;
@@ -142,20 +301,97 @@ export class CubyzConnection extends EventEmitter {
       logLevel in LOG_LEVEL_ORDER ? logLevel : "error"
     ) as LogLevel;
     this.identityFile = identityFile;
+    this.reconnectPolicy = resolveReconnectPolicy(reconnect);
+    this.renderDistance = Math.max(0, Math.floor(renderDistance));
+    this.assetCacheDir = assetCacheDir ?? null;
+    this.signaturePolicy = resolveSignaturePolicy(signaturePolicy);
+    this.statsInterval = Math.max(0, statsInterval);
+    this.congestion = new CongestionController(congestion);
+    this.physics =
+      physics === false
+        ? null
+        : new PlayerPhysics(physics === true ? {} : physics);
+    this.chatQueue = new ChatQueue(
+      (message, onDelivery) =>
+        this.sendChannels[CHANNEL.LOSSY].queue(
+          PROTOCOL.CHAT,
+          prepareChatMessage(message),
+          onDelivery,
+        ),
+      chatQueue,
+    );
+    // Held until the handshake completes.
+    this.chatQueue.pause();
+
+    this.resetSession();
+  }
 
+  // Build a fresh socket, connection ID and set of sequenced channels.  Used
+  // for the initial session and for every reconnect attempt, since neither
+  // the closed socket nor the old channel sequences can be reused.
+  private resetSession(): void {
     this.socket = dgram.createSocket("udp4");
     this.connectionId = BigInt.asIntN(
       64,
       (BigInt(Date.now()) << 20n) | BigInt(randomInt(0, 0xfffff)),
     );
+    this.remoteConnectionId = null;
+    this.state = "awaitingServer";
+    this.handshakeComplete = false;
 
     this.sendChannels = {
-      [CHANNEL.LOSSY]: new SendChannel(CHANNEL.LOSSY, randomSequence()),
-      [CHANNEL.SECURE]: new SendChannel(CHANNEL.SECURE, randomSequence()),
-      [CHANNEL.SLOW]: new SendChannel(CHANNEL.SLOW, randomSequence()),
+      [CHANNEL.LOSSY]: new SendChannel(
+        CHANNEL.LOSSY,
+        randomSequence(),
+        this.congestion,
+      ),
+      [CHANNEL.SECURE]: new SendChannel(
+        CHANNEL.SECURE,
+        randomSequence(),
+        this.congestion,
+      ),
+      [CHANNEL.SLOW]: new SendChannel(
+        CHANNEL.SLOW,
+        randomSequence(),
+        this.congestion,
+      ),
     } as Record<SequencedChannelId, SendChannel>;
-
-    this.socket.on("message", (msg: Buffer) => {
+    this.receiveChannels.clear();
+    this.pendingConfirmations.length = 0;
+    this.congestion.reset();
+    this.traffic = {
+      bytesSent: 0,
+      bytesReceived: 0,
+      datagramsSent: 0,
+      datagramsReceived: 0,
+    };
+    this.lastStatsEmitted = Date.now();
+    this.secureChannel = null;
+    this.secureMessageChain = Promise.resolve();
+    this.assets = null;
+    this.serverData = null;
+    this.playerMap.clear();
+    this.entityStates.clear();
+    this.itemStates.clear();
+    this.world.clear();
+    this.lastChunkCenter = null;
+    this.pendingChunkRequests.clear();
+    this.lastKeepAliveSent = Date.now();
+    this.lastInbound = Date.now();
+    this.lastInitSent = 0;
+    this.lastPlayerStateSent = 0;
+    this.confirmedPosition = null;
+    this.gamemode = null;
+    this.onGround = false;
+    this.disconnectSent = false;
+    this.disconnectEmitted = false;
+    this.initSent = false;
+    this.awaitingServerSince = null;
+
+    const socket = this.socket;
+    socket.on("message", (msg: Buffer) => {
+      this.traffic.bytesReceived += msg.length;
+      this.traffic.datagramsReceived += 1;
       try {
         const maybePromise = this.handlePacket(msg);
         if (maybePromise instanceof Promise) {
@@ -168,7 +404,7 @@ export class CubyzConnection extends EventEmitter {
       }
     });
 
-    this.socket.on("error", (err: Error) => {
+    socket.on("error", (err: Error) => {
       this.log("error", "Socket error:", err);
     });
   }
@@ -199,6 +435,68 @@ export class CubyzConnection extends EventEmitter {
     this.emit("disconnect", { reason });
   }
 
+  // Tear down a session that ended without the caller asking for it and, if a
+  // reconnect policy is configured, schedule the next attempt.
+  private handleSessionLost(reason: DisconnectEvent["reason"]): void {
+    this.emitDisconnect(reason);
+    this.shutdown(false);
+    if (this.reconnectPolicy === null || this.stopped) {
+      this.settlePending(new ConnectionClosedError(reason));
+      return;
+    }
+    if (
+      this.reconnectPolicy.restorePlayerState &&
+      this.restoredPlayerState === null
+    ) {
+      this.restoredPlayerState = clonePlayerState(this.playerState);
+    }
+    this.scheduleReconnect(reason);
+  }
+
+  private scheduleReconnect(reason: DisconnectEvent["reason"]): void {
+    const policy = this.reconnectPolicy;
+    if (policy === null || this.reconnectTimer !== null) {
+      return;
+    }
+    if (this.reconnectAttempt >= policy.maxAttempts) {
+      this.log(
+        "warn",
+        `Giving up after ${this.reconnectAttempt} reconnect attempts`,
+      );
+      const attempts = this.reconnectAttempt;
+      this.reconnectAttempt = 0;
+      this.restoredPlayerState = null;
+      this.emit("reconnectFailed", { attempts });
+      this.settlePending(new ConnectionClosedError("reconnectFailed"));
+      return;
+    }
+    this.reconnectAttempt += 1;
+    const attempt = this.reconnectAttempt;
+    const baseDelay = Math.min(
+      policy.maxDelayMs,
+      policy.initialDelayMs * policy.multiplier ** (attempt - 1),
+    );
+    const spread = baseDelay * policy.jitter;
+    const delayMs = Math.max(
+      0,
+      Math.round(baseDelay - spread + Math.random() * spread * 2),
+    );
+    this.log("info", `Reconnecting in ${delayMs} ms (attempt ${attempt})`);
+    this.emit("reconnecting", { attempt, delayMs, reason });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.stopped) {
+        return;
+      }
+      this.resetSession();
+      this.openSession().catch((err) => {
+        this.log("warn", "Reconnect attempt failed:", err);
+        this.shutdown(false);
+        this.scheduleReconnect(reason);
+      });
+    }, delayMs);
+  }
+
   on<K extends keyof CubyzConnectionEvents>(
     event: K,
     listener: (...args: CubyzConnectionEvents[K]) => void,
@@ -227,10 +525,176 @@ export class CubyzConnection extends EventEmitter {
     return super.emit(event, ...args);
   }
 
-  async start(): Promise<void> {
+  // Resolve with the arguments of the next `event` emission accepted by
+  // `predicate`.  Rejects on timeout, abort, or once the connection has ended
+  // for good (right away if it already has); with reconnect enabled the wait
+  // survives reconnects.
+  waitFor<K extends keyof CubyzConnectionEvents>(
+    event: K,
+    options: WaitForOptions<CubyzConnectionEvents[K]> = {},
+  ): Promise<CubyzConnectionEvents[K]> {
+    return this.waitForEvent(event, options, false);
+  }
+
+  // Iterate over `event` emissions.  Emissions are queued until read, and the
+  // iteration ends when the connection ends for good or `signal` aborts.
+  events<K extends keyof CubyzConnectionEvents>(
+    event: K,
+    { signal }: EventIteratorOptions = {},
+  ): AsyncIterableIterator<CubyzConnectionEvents[K]> {
+    type Args = CubyzConnectionEvents[K];
+    const queue: Args[] = [];
+    let wake: (() => void) | null = null;
+    let done = false;
+
+    const listener = (...args: Args) => {
+      queue.push(args);
+      wake?.();
+    };
+    const finish = () => {
+      if (done) {
+        return;
+      }
+      done = true;
+      this.off(event, listener);
+      this.waiters.delete(finish);
+      signal?.removeEventListener("abort", finish);
+      wake?.();
+    };
+
+    if (signal?.aborted || this.closedError !== null) {
+      done = true;
+    } else {
+      this.on(event, listener);
+      this.waiters.add(finish);
+      signal?.addEventListener("abort", finish, { once: true });
+    }
+
+    const iterator: AsyncIterableIterator<Args> = {
+      next: async () => {
+        while (queue.length === 0 && !done) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = null;
+        }
+        const value = queue.shift();
+        return value === undefined
+          ? { done: true, value: undefined }
+          : { done: false, value };
+      },
+      return: async () => {
+        finish();
+        queue.length = 0;
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+    return iterator;
+  }
+
+  private waitForEvent<K extends keyof CubyzConnectionEvents>(
+    event: K,
+    { predicate, timeout, signal }: WaitForOptions<CubyzConnectionEvents[K]>,
+    failOnDisconnect: boolean,
+  ): Promise<CubyzConnectionEvents[K]> {
+    type Args = CubyzConnectionEvents[K];
+    return new Promise<Args>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      if (this.closedError !== null) {
+        reject(this.closedError);
+        return;
+      }
+      let timer: NodeJS.Timeout | null = null;
+
+      const cleanup = () => {
+        this.off(event, listener);
+        this.off("disconnect", onDisconnect);
+        this.waiters.delete(fail);
+        signal?.removeEventListener("abort", onAbort);
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+      };
+      const fail = (error: unknown) => {
+        cleanup();
+        reject(error);
+      };
+      const listener = (...args: Args) => {
+        try {
+          if (predicate && !predicate(...args)) {
+            return;
+          }
+        } catch (err) {
+          fail(err);
+          return;
+        }
+        cleanup();
+        resolve(args);
+      };
+      const onDisconnect = ({ reason }: DisconnectEvent) => {
+        fail(new ConnectionClosedError(reason));
+      };
+      const onAbort = () => fail(signal?.reason);
+
+      this.on(event, listener);
+      if (failOnDisconnect) {
+        this.on("disconnect", onDisconnect);
+      }
+      this.waiters.add(fail);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeout !== undefined) {
+        timer = setTimeout(
+          () => fail(new WaitForTimeoutError(event, timeout)),
+          timeout,
+        );
+      }
+    });
+  }
+
+  // The connection ended for good: fail pending waits, end event iterators
+  // and reject chat that was never sent.
+  private settlePending(error: ConnectionClosedError): void {
+    this.closedError = error;
+    for (const settle of [...this.waiters]) {
+      settle(error);
+    }
+    this.chatQueue.clear(error);
+  }
+
+  // Bind the socket and begin the handshake.  With `waitForHandshake`, resolve
+  // only after `handshakeComplete`; a disconnect, timeout or abort before that
+  // closes the connection and rejects.
+  async start(options: StartOptions = {}): Promise<void> {
+    const { waitForHandshake = false, timeout, signal } = options;
+    this.stopped = false;
+    this.closedError = null;
     this.identity = await loadOrCreateIdentity(this.identityFile);
     this.log("info", `Loaded identity from ${this.identityFile}`);
+    if (!waitForHandshake) {
+      await this.openSession();
+      return;
+    }
+    const handshake = this.waitForEvent(
+      "handshakeComplete",
+      { timeout, signal },
+      true,
+    );
+    // Avoid an unhandled rejection if openSession() throws first.
+    handshake.catch(() => {});
+    try {
+      await this.openSession();
+      await handshake;
+    } catch (err) {
+      this.close();
+      throw err;
+    }
+  }
 
+  private async openSession(): Promise<void> {
     await new Promise<void>((resolve, reject) => {
       const onError = (err: Error) => {
         this.socket.off("listening", onListening);
@@ -253,6 +717,18 @@ export class CubyzConnection extends EventEmitter {
 
   close(options: CloseOptions = {}): void {
     const { notify = true } = options;
+    // An explicit close cancels any pending or future reconnect attempt.
+    this.stopped = true;
+    this.settlePending(new ConnectionClosedError("closed"));
+    this.restoredPlayerState = null;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.shutdown(notify);
+  }
+
+  private shutdown(notify: boolean): void {
     if (this.state === "closed" || this.state === "closing") {
       return;
     }
@@ -272,6 +748,10 @@ export class CubyzConnection extends EventEmitter {
       }
       this.awaitingServerSince = null;
       this.state = "closed";
+      this.chatQueue.pause();
+      for (const channel of Object.values(this.sendChannels)) {
+        channel.abandon();
+      }
       this.socket.close();
     };
 
@@ -296,8 +776,7 @@ export class CubyzConnection extends EventEmitter {
       this.awaitingServerSince = started;
       if (now - started >= AWAITING_SERVER_TIMEOUT_MS) {
         this.log("warn", "Timed out waiting for server init response");
-        this.emitDisconnect("timeout");
-        this.close({ notify: false });
+        this.handleSessionLost("timeout");
         return;
       }
     }
@@ -307,8 +786,7 @@ export class CubyzConnection extends EventEmitter {
       now - this.lastInbound >= KEEP_ALIVE_TIMEOUT_MS
     ) {
       this.log("warn", "Connection timed out due to inactivity");
-      this.emitDisconnect("timeout");
-      this.close({ notify: false });
+      this.handleSessionLost("timeout");
       return;
     }
 
@@ -318,29 +796,44 @@ export class CubyzConnection extends EventEmitter {
 
     this.flushConfirmations();
     this.flushSendQueues(now);
+
+    if (
+      this.statsInterval > 0 &&
+      this.state === "connected" &&
+      now - this.lastStatsEmitted >= this.statsInterval
+    ) {
+      this.lastStatsEmitted = now;
+      this.emit("stats", this.getStats());
+    }
   }
 
+  // Send whatever the congestion window allows, up to MAX_PACKETS_PER_TICK
+  // packets per channel.
   private flushSendQueues(now: number): void {
     for (const channel of Object.values(this.sendChannels)) {
-      // The SECURE channel is driven by SecureChannelHandler; skip normal queuing.
-      if (channel.channelId === CHANNEL.SECURE) {
-        continue;
-      }
-      if (!channel.hasWork()) {
-        continue;
-      }
-      const packet = channel.getPacket(now);
-      if (!packet) {
-        continue;
+      for (let i = 0; i < MAX_PACKETS_PER_TICK && channel.hasWork(); i++) {
+        const packet = channel.getPacket(now);
+        if (!packet) {
+          break;
+        }
+        const buffer = Buffer.alloc(5 + packet.payload.length);
+        buffer[0] = channel.channelId;
+        writeInt32BE(buffer, 1, packet.start);
+        packet.payload.copy(buffer, 5);
+        this.sendDatagram(buffer);
       }
-      const buffer = Buffer.alloc(5 + packet.payload.length);
-      buffer[0] = channel.channelId;
-      writeInt32BE(buffer, 1, packet.start);
-      packet.payload.copy(buffer, 5);
-      this.socket.send(buffer, this.port, this.host);
     }
   }
 
+  private sendDatagram(
+    buffer: Buffer,
+    callback?: (err: Error | null) => void,
+  ): void {
+    this.traffic.bytesSent += buffer.length;
+    this.traffic.datagramsSent += 1;
+    this.socket.send(buffer, this.port, this.host, callback);
+  }
+
   private queueConfirmation(channelId: number, start: number): void {
     this.pendingConfirmations.push({ channelId, start, timestamp: Date.now() });
   }
@@ -364,13 +857,13 @@ export class CubyzConnection extends EventEmitter {
       writeInt32BE(buffer, offset, entry.start);
       offset += 4;
     }
-    this.socket.send(buffer, this.port, this.host);
+    this.sendDatagram(buffer);
   }
 
   private sendKeepAlive(): void {
     this.lastKeepAliveSent = Date.now();
     const packet = Buffer.from([CHANNEL.KEEP_ALIVE]);
-    this.socket.send(packet, this.port, this.host);
+    this.sendDatagram(packet);
   }
 
   private sendInit(): void {
@@ -385,7 +878,7 @@ export class CubyzConnection extends EventEmitter {
       this.sendChannels[CHANNEL.SECURE].initialSequence,
     );
     writeInt32BE(payload, 17, this.sendChannels[CHANNEL.SLOW].initialSequence);
-    this.socket.send(payload, this.port, this.host);
+    this.sendDatagram(payload);
     this.initSent = true;
   }
 
@@ -393,7 +886,7 @@ export class CubyzConnection extends EventEmitter {
     const buffer = Buffer.alloc(1 + 8);
     buffer[0] = CHANNEL.INIT;
     buffer.writeBigInt64BE(this.connectionId, 1);
-    this.socket.send(buffer, this.port, this.host, (err) => {
+    this.sendDatagram(buffer, (err) => {
       if (err) {
         this.log("error", "Failed to send init ack:", err);
       }
@@ -433,12 +926,7 @@ export class CubyzConnection extends EventEmitter {
       return;
     }
     const handler = new SecureChannelHandler({
-      socket: this.socket,
-      host: this.host,
-      port: this.port,
-      channelId: CHANNEL.SECURE,
-      mtu: 548,
-      initialSendSeq: this.sendChannels[CHANNEL.SECURE].initialSequence,
+      sendChannel: this.sendChannels[CHANNEL.SECURE],
     });
 
     handler.onError = (err: Error) => {
@@ -460,11 +948,13 @@ export class CubyzConnection extends EventEmitter {
     };
 
     handler.onMessage = (msg: { protocolId: number; payload: Buffer }) => {
-      this.handleProtocol(CHANNEL.SECURE, msg.protocolId, msg.payload).catch(
-        (err) => {
+      this.secureMessageChain = this.secureMessageChain
+        .then(() =>
+          this.handleProtocol(CHANNEL.SECURE, msg.protocolId, msg.payload),
+        )
+        .catch((err) => {
           this.log("error", `Secure protocol ${msg.protocolId} failed:`, err);
-        },
-      );
+        });
     };
 
     this.secureChannel = handler;
@@ -487,8 +977,7 @@ export class CubyzConnection extends EventEmitter {
         break;
       case CHANNEL.DISCONNECT:
         this.log("warn", "Server requested disconnect");
-        this.emitDisconnect("server");
-        this.close({ notify: false });
+        this.handleSessionLost("server");
         break;
       default:
         return this.handleSequencedPacket(buffer);
@@ -557,13 +1046,13 @@ export class CubyzConnection extends EventEmitter {
     while (offset + 7 <= buffer.length) {
       const channelId = buffer[offset];
       offset += 1;
+      // Half the time the server held the packet before confirming it.
+      const halfHoldTime = buffer.readUInt16BE(offset);
       offset += 2;
       const start = buffer.readInt32BE(offset);
       offset += 4;
       const channel = this.sendChannels[channelId as SequencedChannelId];
-      if (channel) {
-        channel.handleAck(start);
-      }
+      channel?.handleAck(start, halfHoldTime * 2);
     }
   }
 
@@ -577,6 +1066,10 @@ export class CubyzConnection extends EventEmitter {
       case PROTOCOL.HANDSHAKE:
         await this.handleHandshake(payload);
         break;
+      case PROTOCOL.CHUNK_TRANSMISSION:
+        this.handleChunkTransmission(payload);
+        this.emit("protocol", { channelId, protocolId, payload });
+        break;
       case PROTOCOL.ENTITY_POSITION:
         this.handleEntityPosition(payload);
         this.emit("protocol", { channelId, protocolId, payload });
@@ -610,104 +1103,82 @@ export class CubyzConnection extends EventEmitter {
       }
       case HANDSHAKE_STATE.ASSETS: {
         // Assets are compressed with zlib's raw DEFLATE
-        // Skipping asset storage for brevity
+        try {
+          this.assets = await loadAssets(
+            data,
+            this.assetCacheDir === null
+              ? undefined
+              : {
+                  cacheDir: this.assetCacheDir,
+                  host: this.host,
+                  port: this.port,
+                },
+          );
+          this.log(
+            "debug",
+            `Loaded ${this.assets.listFiles().length} asset files (${this.assets.hash})`,
+          );
+        } catch (err) {
+          this.log("warn", "Failed to decode handshake assets:", err);
+        }
         break;
       }
       case HANDSHAKE_STATE.SERVER_DATA: {
         this.handshakeComplete = true;
         const zonText = data.toString("utf8");
-        let selfInserted = false;
+        let parsed: ZonValue = null;
         try {
-          const parsed = parseZon(zonText);
-          const playerId =
-            typeof parsed === "object" && parsed !== null
-              ? (parsed as Record<string, ZonValue>).player_id
-              : null;
-          if (typeof playerId === "number") {
-            this.playerMap.set(playerId, this.name);
-            selfInserted = true;
-          }
-          const playerData =
-            typeof parsed === "object" && parsed !== null
-              ? (parsed as Record<string, ZonValue>).player
-              : null;
-          if (playerData && typeof playerData === "object") {
-            const position = Array.isArray(
-              (playerData as Record<string, ZonValue>).position,
-            )
-              ? ((playerData as Record<string, ZonValue>)
-                  .position as ZonValue[])
-              : null;
-            if (position && position.length >= 3) {
-              this.playerState.position = {
-                x: Number(position[0]) || 0,
-                y: Number(position[1]) || 0,
-                z: Number(position[2]) || 0,
-              };
-            } else if (
-              Array.isArray((parsed as Record<string, ZonValue>).spawn) &&
-              ((parsed as Record<string, ZonValue>).spawn as ZonValue[])
-                .length >= 3
-            ) {
-              const spawn = (parsed as Record<string, ZonValue>)
-                .spawn as ZonValue[];
-              this.playerState.position = {
-                x: Number(spawn[0]) || 0,
-                y: Number(spawn[1]) || 0,
-                z: Number(spawn[2]) || 0,
-              };
-            }
-            const velocity = Array.isArray(
-              (playerData as Record<string, ZonValue>).velocity,
-            )
-              ? ((playerData as Record<string, ZonValue>)
-                  .velocity as ZonValue[])
-              : null;
-            if (velocity && velocity.length >= 3) {
-              this.playerState.velocity = {
-                x: Number(velocity[0]) || 0,
-                y: Number(velocity[1]) || 0,
-                z: Number(velocity[2]) || 0,
-              };
-            }
-            const rotation = Array.isArray(
-              (playerData as Record<string, ZonValue>).rotation,
-            )
-              ? ((playerData as Record<string, ZonValue>)
-                  .rotation as ZonValue[])
-              : null;
-            if (rotation && rotation.length >= 3) {
-              this.playerState.rotation = {
-                x: Number(rotation[0]) || 0,
-                y: Number(rotation[1]) || 0,
-                z: Number(rotation[2]) || 0,
-              };
-            }
-          } else if (
-            parsed &&
-            typeof parsed === "object" &&
-            Array.isArray((parsed as Record<string, ZonValue>).spawn)
-          ) {
-            const spawn = (parsed as Record<string, ZonValue>)
-              .spawn as ZonValue[];
-            if (spawn.length >= 3) {
-              this.playerState.position = {
-                x: Number(spawn[0]) || 0,
-                y: Number(spawn[1]) || 0,
-                z: Number(spawn[2]) || 0,
-              };
-            }
-          }
+          parsed = parseZon(zonText);
         } catch (err) {
           this.log("warn", "Failed to parse server data handshake:", err);
         }
+        const serverData = parseServerData(parsed);
+        for (const issue of serverData.issues) {
+          this.log(
+            "warn",
+            `Invalid server data at ${formatZonPath(issue.path)}: ${issue.message}`,
+          );
+        }
+        this.serverData = serverData;
+        this.buildRegistries(serverData);
+        let selfInserted = false;
+        if (serverData.playerId !== null) {
+          this.playerMap.set(serverData.playerId, this.name);
+          selfInserted = true;
+        }
+        const position = serverData.player?.position ?? serverData.spawn;
+        if (position) {
+          this.playerState.position = { ...position };
+          this.confirmedPosition = { ...position };
+        }
+        this.gamemode = serverData.player?.gamemode ?? serverData.gamemode;
+        if (serverData.player?.velocity) {
+          this.playerState.velocity = { ...serverData.player.velocity };
+        }
+        if (serverData.player?.rotation) {
+          this.playerState.rotation = { ...serverData.player.rotation };
+        }
+        // The position above stays confirmed: the restored one is only sent
+        // as a move, so the server can still teleport the bot back.
+        if (this.restoredPlayerState !== null) {
+          this.playerState.position = this.restoredPlayerState.position;
+          this.playerState.rotation = this.restoredPlayerState.rotation;
+          this.restoredPlayerState = null;
+        }
         if (!selfInserted && !this.playerMap.has(`self:${this.name}`)) {
           this.playerMap.set(`self:${this.name}`, this.name);
         }
         this.emitPlayers();
         this.startPlayerStateLoop();
         this.publishPlayerState(true);
-        this.emit("handshakeComplete", zonText);
+        this.chatQueue.resume();
+        this.emit("handshakeComplete", zonText, serverData);
+        if (this.reconnectAttempt > 0) {
+          const attempt = this.reconnectAttempt;
+          this.reconnectAttempt = 0;
+          this.log("info", `Reconnected after ${attempt} attempt(s)`);
+          this.emit("reconnected", { attempt });
+        }
         break;
       }
       case HANDSHAKE_STATE.USER_DATA:
@@ -718,84 +1189,122 @@ export class CubyzConnection extends EventEmitter {
     }
   }
 
+  private buildRegistries(serverData: ServerData): void {
+    const { palettes } = serverData;
+    this.blockRegistry = new BlockRegistry(palettes.block ?? [], this.assets);
+    this.itemRegistry = new ItemRegistry(palettes.item ?? [], this.assets);
+    this.biomeRegistry = new BiomeRegistry(palettes.biome ?? [], this.assets);
+    this.log(
+      "debug",
+      `Registries: ${this.blockRegistry.size} blocks, ${this.itemRegistry.size} items, ${this.biomeRegistry.size} biomes`,
+    );
+  }
+
   private async handleSignatureRequest(data: Buffer): Promise<void> {
-    if (!this.identity) {
-      this.log("error", "No identity available for signature request");
-      return;
-    }
     if (!this.secureChannel) {
       this.log("error", "No secure channel for signature request");
       return;
     }
-
-    const verificationData =
-      this.secureChannel.verificationDataBuffer ?? Buffer.alloc(0);
-
-    // Parse signatureRequest:
-    // [varint: len of algo1 name][algo1 name bytes][varint: len of algo2 name (0 if none)][algo2 name bytes if present]
-    let offset = 0;
-    const algo1LenResult = decodeVarInt(data, offset);
-    offset += algo1LenResult.consumed;
-    const algo1Name = data
-      .slice(offset, offset + algo1LenResult.value)
-      .toString("utf8");
-    offset += algo1LenResult.value;
-
-    let algo2Name = "";
-    if (offset < data.length) {
-      const algo2LenResult = decodeVarInt(data, offset);
-      offset += algo2LenResult.consumed;
-      if (algo2LenResult.value > 0) {
-        algo2Name = data
-          .slice(offset, offset + algo2LenResult.value)
-          .toString("utf8");
-      }
+    let request: SignatureRequest;
+    try {
+      request = parseSignatureRequest(data);
+    } catch (err) {
+      this.failAuth({
+        reason: "malformedRequest",
+        message: (err as Error).message,
+        request: null,
+        rejectedAlgorithms: [],
+        responseSent: false,
+      });
+      return;
     }
+    this.log("debug", "Signature request:", request.algorithms.join(", "));
 
-    this.log(
-      "debug",
-      "Signature request: algo1=",
-      algo1Name,
-      "algo2=",
-      algo2Name,
-    );
-
-    const signatureBuffers: Buffer[] = [];
     const identity = this.identity;
+    if (!identity) {
+      this.failAuth({
+        reason: "noIdentity",
+        message: "No identity available for signature request",
+        request,
+        rejectedAlgorithms: [...request.algorithms],
+        responseSent: false,
+      });
+      return;
+    }
 
-    const signOne = async (algoName: string): Promise<void> => {
-      switch (algoName) {
-        case "ed25519":
-          signatureBuffers.push(
-            signEd25519(identity.keys.ed25519PrivKey, verificationData),
-          );
-          break;
-        case "ecdsaP256Sha256":
-          signatureBuffers.push(
-            signP256(identity.keys.p256PrivKey, verificationData),
-          );
-          break;
-        case "mldsa44":
-          signatureBuffers.push(
-            await signMlDsa44(identity.keys.mlDsa44PrivKey, verificationData),
-          );
-          break;
-        default:
-          this.log("warn", "Unknown signature algorithm requested:", algoName);
+    const accepted: SignatureAlgorithm[] = [];
+    const rejected: string[] = [];
+    let reason: AuthFailureReason | null = null;
+    for (const name of request.algorithms) {
+      if (!isSignatureAlgorithm(name)) {
+        rejected.push(name);
+        reason ??= "unknownAlgorithm";
+      } else if (!this.signaturePolicy.allowedAlgorithms.includes(name)) {
+        rejected.push(name);
+        reason ??= "algorithmNotAllowed";
+      } else {
+        accepted.push(name);
       }
-    };
-
-    await signOne(algo1Name);
-    if (algo2Name) {
-      await signOne(algo2Name);
+    }
+    const partial =
+      reason !== null &&
+      this.signaturePolicy.allowPartialResponse &&
+      accepted.length > 0;
+    const failure =
+      reason === null
+        ? null
+        : {
+            reason,
+            message: `Refused to sign with ${rejected.join(", ")}`,
+            request,
+            rejectedAlgorithms: rejected,
+            responseSent: partial,
+          };
+    if (failure && !partial) {
+      this.failAuth(failure);
+      return;
     }
 
-    // signatureResponse format: [state byte = 3][sig1_bytes][optional sig2_bytes]
-    const statePrefix = Buffer.from([HANDSHAKE_STATE.SIGNATURE_RESPONSE]);
-    const responsePayload = Buffer.concat([statePrefix, ...signatureBuffers]);
+    const verificationData =
+      this.secureChannel.verificationDataBuffer ?? Buffer.alloc(0);
+    const response: SignatureResponse = { signatures: [] };
+    try {
+      for (const algorithm of accepted) {
+        response.signatures.push({
+          algorithm,
+          signature: await signWith(identity, algorithm, verificationData),
+        });
+      }
+    } catch (err) {
+      this.failAuth({
+        reason: "signingFailed",
+        message: (err as Error).message,
+        request,
+        rejectedAlgorithms: [...request.algorithms],
+        responseSent: false,
+      });
+      return;
+    }
 
-    this.secureChannel.sendMessage(PROTOCOL.HANDSHAKE, responsePayload);
+    this.secureChannel.sendMessage(
+      PROTOCOL.HANDSHAKE,
+      encodeSignatureResponse(response),
+    );
     this.log("debug", "Sent signature response");
+    if (failure) {
+      this.failAuth(failure);
+    }
+  }
+
+  // Report an authentication problem.  Unless a partial response was sent,
+  // the connection is closed, since retrying would fail the same way.
+  private failAuth(event: AuthFailedEvent): void {
+    this.log("warn", `Authentication failed (${event.reason}):`, event.message);
+    this.emit("authFailed", event);
+    if (!event.responseSent) {
+      this.emitDisconnect("authFailed");
+      this.close();
+    }
   }
 
   private handleEntityUpdate(payload: Buffer): void {
@@ -809,38 +1318,36 @@ export class CubyzConnection extends EventEmitter {
       this.log("debug", "Entity payload raw:", text);
       return;
     }
-    if (!Array.isArray(parsed)) {
+    const entries = ENTITY_UPDATE_SCHEMA.safeParse(parsed);
+    if (!entries.success) {
+      this.log("warn", "Invalid entity payload:", entries.error.message);
       return;
     }
     let changed = false;
     let nullIndex = -1;
-    for (let i = 0; i < parsed.length; i++) {
-      const entry = parsed[i];
+    for (let i = 0; i < entries.data.length; i++) {
+      const entry = entries.data[i];
       if (entry === null) {
         nullIndex = i;
         break;
       }
-      if (typeof entry === "number") {
-        if (this.playerMap.delete(entry)) {
-          changed = true;
-        }
+      const player = PLAYER_ENTRY_SCHEMA.safeParse(entry);
+      if (!player.success) {
+        this.log("warn", `Invalid entity entry ${i}:`, player.error.message);
         continue;
       }
-      if (
-        entry &&
-        typeof entry === "object" &&
-        typeof (entry as Record<string, ZonValue>).id === "number"
-      ) {
-        const incomingName =
-          typeof (entry as Record<string, ZonValue>).name === "string"
-            ? ((entry as Record<string, ZonValue>).name as string)
-            : null;
-        const id = (entry as Record<string, ZonValue>).id as number;
-        const previous = this.playerMap.get(id);
-        if (incomingName !== previous) {
-          this.playerMap.set(id, incomingName);
+      if (typeof player.data === "number") {
+        if (this.playerMap.delete(player.data)) {
           changed = true;
         }
+        continue;
+      }
+      const { id, name } = player.data;
+      const incomingName = name ?? null;
+      const previous = this.playerMap.get(id);
+      if (incomingName !== previous) {
+        this.playerMap.set(id, incomingName);
+        changed = true;
       }
     }
     if (changed) {
@@ -867,8 +1374,8 @@ export class CubyzConnection extends EventEmitter {
     // Number entries are removals (by u16 index); object entries are additions
     // or updates whose positions will arrive via the entityPositions protocol.
     if (nullIndex >= 0) {
-      for (let i = nullIndex + 1; i < parsed.length; i++) {
-        const entry = parsed[i];
+      for (let i = nullIndex + 1; i < entries.data.length; i++) {
+        const entry = entries.data[i];
         if (typeof entry === "number") {
           this.itemStates.delete(entry);
         }
@@ -903,6 +1410,19 @@ export class CubyzConnection extends EventEmitter {
     this.emit("entityPositions", packet);
   }
 
+  private handleChunkTransmission(payload: Buffer): void {
+    let chunk: Chunk;
+    try {
+      chunk = parseChunkTransmission(payload);
+    } catch (err) {
+      this.log("warn", "Failed to parse chunk transmission:", err);
+      return;
+    }
+    this.pendingChunkRequests.delete(chunkKey(chunk.position));
+    this.world.setChunk(chunk);
+    this.emit("chunkLoaded", chunk);
+  }
+
   private handleBlockUpdate(payload: Buffer): void {
     const updates: BlockUpdate[] = [];
     let offset = 0;
@@ -936,14 +1456,17 @@ export class CubyzConnection extends EventEmitter {
       );
       offset += blockEntityDataLen;
 
+      const resolved = this.blockRegistry.resolve(block);
       updates.push({
         position: { x, y, z },
         block,
         blockEntityData,
+        ...(resolved ? { resolved } : {}),
       });
     }
 
     if (updates.length > 0) {
+      this.world.applyBlockUpdates(updates);
       this.emit("blockUpdate", updates);
     }
   }
@@ -971,6 +1494,7 @@ export class CubyzConnection extends EventEmitter {
           }
           const gamemode = payload.readUInt8(offset) as Gamemode;
           this.log("debug", `Gamemode update: ${gamemode}`);
+          this.gamemode = gamemode;
           this.emit("genericUpdate", {
             type: "gamemode",
             gamemode,
@@ -988,6 +1512,7 @@ export class CubyzConnection extends EventEmitter {
           const y = payload.readDoubleBE(offset);
           offset += 8;
           const z = payload.readDoubleBE(offset);
+          this.applyServerPosition({ x, y, z });
           this.emit("genericUpdate", {
             type: "teleport",
             position: { x, y, z },
@@ -1047,9 +1572,11 @@ export class CubyzConnection extends EventEmitter {
             return;
           }
           const biomeId = payload.readUInt32BE(offset);
+          const biome = this.biomeRegistry.getId(biomeId);
           this.emit("genericUpdate", {
             type: "biome",
             biomeId,
+            ...(biome !== undefined ? { biome } : {}),
           });
           break;
         }
@@ -1140,10 +1667,62 @@ export class CubyzConnection extends EventEmitter {
       .map(([id, name]) => ({ id: id as number, name: name as string }));
   }
 
+  getStats(): ConnectionStats {
+    const channelStats = (id: SequencedChannelId): ChannelStats => ({
+      ...this.sendChannels[id].getStats(),
+      ...(this.receiveChannels.get(id)?.getStats() ?? {
+        packetsReceived: 0,
+        duplicates: 0,
+        outOfOrder: 0,
+      }),
+    });
+    const channels = {
+      lossy: channelStats(CHANNEL.LOSSY),
+      secure: channelStats(CHANNEL.SECURE),
+      slow: channelStats(CHANNEL.SLOW),
+    };
+    const all = Object.values(channels);
+    const resends = all.reduce((sum, channel) => sum + channel.resends, 0);
+    const sent = all.reduce((sum, channel) => sum + channel.packetsSent, 0);
+    const { rtt } = this.congestion;
+    return {
+      rtt: rtt.smoothed,
+      rttVariance: rtt.variance,
+      latestRtt: rtt.latest,
+      rto: rtt.rto,
+      resendTimeout: this.congestion.resendTimeout,
+      congestionWindow: this.congestion.window,
+      bytesInFlight: this.congestion.bytesInFlight,
+      ...this.traffic,
+      resends,
+      resendRate: sent + resends > 0 ? resends / (sent + resends) : 0,
+      channels,
+    };
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
   getPlayerNames(): string[] {
     return this.getPlayers().map((player) => player.name);
   }
 
+  // The bot's own position, velocity and rotation (rotation in radians).
+  getPlayerState(): PlayerState {
+    return clonePlayerState(this.playerState);
+  }
+
+  // The last position the server placed the bot at, or null before the
+  // handshake.
+  getConfirmedPosition(): Vector3 | null {
+    return this.confirmedPosition ? { ...this.confirmedPosition } : null;
+  }
+
+  getGamemode(): Gamemode | null {
+    return this.gamemode;
+  }
+
   getEntityStates(): EntitySnapshot[] {
     return Array.from(this.entityStates.values(), (state) => ({
       id: state.id,
@@ -1190,6 +1769,158 @@ export class CubyzConnection extends EventEmitter {
     };
   }
 
+  getServerData(): ServerData | null {
+    return this.serverData;
+  }
+
+  getBlockRegistry(): BlockRegistry {
+    return this.blockRegistry;
+  }
+
+  getItemRegistry(): ItemRegistry {
+    return this.itemRegistry;
+  }
+
+  getBiomeRegistry(): BiomeRegistry {
+    return this.biomeRegistry;
+  }
+
+  getAssets(): AssetTree | null {
+    return this.assets;
+  }
+
+  getWorld(): World {
+    return this.world;
+  }
+
+  getChunks(): Chunk[] {
+    return this.world.getChunks();
+  }
+
+  // First solid block along a ray through the loaded world, or null when
+  // there is none within `maxDistance` or the ray reaches an unloaded chunk
+  // first.  To cast along the bot's view, start at its eyes and use
+  // directionFromRotation(getPlayerState().rotation).
+  raycast(
+    origin: Vector3,
+    direction: Vector3,
+    maxDistance: number,
+  ): RaycastHit | null {
+    const hit = raycastBlocks(origin, direction, maxDistance, this.isSolidAt);
+    if (!hit) {
+      return null;
+    }
+    const block = this.world.getBlock(
+      hit.position.x,
+      hit.position.y,
+      hit.position.z,
+    );
+    if (block === null) {
+      return null;
+    }
+    return { ...hit, block, name: this.blockRegistry.getId(block & 0xffff) };
+  }
+
+  // Whether a straight line from the bot's eyes reaches the entity's eyes or
+  // the middle of its body without passing a solid block.  Unloaded chunks
+  // block the view, and unknown entities are never visible.
+  canSee(entityId: number): boolean {
+    const entity = this.entityStates.get(entityId);
+    if (!entity) {
+      return false;
+    }
+    const eyes = {
+      ...this.playerState.position,
+      z: this.playerState.position.z + PLAYER_EYE_OFFSET,
+    };
+    const targets = [
+      { ...entity.position, z: entity.position.z + PLAYER_EYE_OFFSET },
+      entity.position,
+    ];
+    return targets.some((target) => {
+      const direction = {
+        x: target.x - eyes.x,
+        y: target.y - eyes.y,
+        z: target.z - eyes.z,
+      };
+      const distance = Math.hypot(direction.x, direction.y, direction.z);
+      return (
+        distance === 0 ||
+        raycastBlocks(eyes, direction, distance, this.isSolidAt) === null
+      );
+    });
+  }
+
+  // Request every chunk within `renderDistance` chunks of the player that is
+  // neither loaded nor already requested, and drop loaded chunks that fell
+  // out of range.  Requests without an answer are repeated after
+  // CHUNK_REQUEST_TIMEOUT_MS.
+  requestChunks(renderDistance = this.renderDistance): void {
+    if (!this.handshakeComplete || renderDistance <= 0) {
+      return;
+    }
+    const center = chunkPositionAt(this.playerState.position);
+    this.lastChunkCenter = chunkKey(center);
+
+    const unloadDistance = (renderDistance + 1) * CHUNK_SIZE;
+    for (const chunk of this.world.getChunks()) {
+      const dx = chunk.position.wx - center.wx;
+      const dy = chunk.position.wy - center.wy;
+      const dz = chunk.position.wz - center.wz;
+      if (dx * dx + dy * dy + dz * dz > unloadDistance * unloadDistance) {
+        this.world.removeChunk(chunk.position);
+        this.emit("chunkUnloaded", { ...chunk.position });
+      }
+    }
+
+    const now = Date.now();
+    const inRange = chunksInRange(center, renderDistance);
+    const keys = new Set(inRange.map(chunkKey));
+    for (const key of this.pendingChunkRequests.keys()) {
+      if (!keys.has(key)) {
+        this.pendingChunkRequests.delete(key);
+      }
+    }
+    const missing = inRange.filter((position) => {
+      if (this.world.getChunk(position) !== undefined) {
+        return false;
+      }
+      const requestedAt = this.pendingChunkRequests.get(chunkKey(position));
+      return (
+        requestedAt === undefined ||
+        now - requestedAt >= CHUNK_REQUEST_TIMEOUT_MS
+      );
+    });
+    if (missing.length === 0) {
+      return;
+    }
+    for (const position of missing) {
+      this.pendingChunkRequests.set(chunkKey(position), now);
+    }
+    this.log("debug", `Requesting ${missing.length} chunks`);
+    for (const message of encodeChunkRequests(
+      center,
+      renderDistance,
+      missing,
+    )) {
+      this.sendChannels[CHANNEL.LOSSY].queue(PROTOCOL.CHUNK_REQUEST, message);
+    }
+  }
+
+  private updateChunkRequests(): void {
+    if (this.renderDistance <= 0) {
+      return;
+    }
+    const center = chunkKey(chunkPositionAt(this.playerState.position));
+    const now = Date.now();
+    const timedOut = Array.from(this.pendingChunkRequests.values()).some(
+      (requestedAt) => now - requestedAt >= CHUNK_REQUEST_TIMEOUT_MS,
+    );
+    if (center !== this.lastChunkCenter || timedOut) {
+      this.requestChunks();
+    }
+  }
+
   sendChat(message: string): void {
     try {
       const payload = prepareChatMessage(message);
@@ -1201,6 +1932,36 @@ export class CubyzConnection extends EventEmitter {
     }
   }
 
+  // Send `message` through the rate-limited chat queue.  Resolves once the
+  // server acknowledged every packet carrying it; rejects with a ChatQueueError
+  // if it is dropped or undelivered, or with the prepareChatMessage error if
+  // it cannot be sent at all.  Once the connection has ended for good it
+  // rejects right away with a ConnectionClosedError.
+  queueChat(message: string, options?: ChatQueueSendOptions): Promise<void> {
+    if (this.closedError !== null) {
+      return Promise.reject(this.closedError);
+    }
+    return this.chatQueue.send(message, options);
+  }
+
+  // Send a message of any length as several chat messages, split by
+  // splitChatMessage.  Each part goes through the chat queue once the one
+  // before it was delivered, `interval` ms later.  Resolves with the number
+  // of messages sent; rejects like queueChat() if a part is not delivered.
+  async sendChatLong(
+    message: string,
+    { interval = CHAT_SPLIT_INTERVAL_MS, signal }: SendChatLongOptions = {},
+  ): Promise<number> {
+    const parts = splitChatMessage(message);
+    for (const [index, part] of parts.entries()) {
+      if (index > 0) {
+        await delay(interval, undefined, { signal });
+      }
+      await this.queueChat(part, { signal });
+    }
+    return parts.length;
+  }
+
   teleport(x: number, y: number, z: number): void {
     const coords = [x, y, z].map((value) => Number(value));
     if (
@@ -1254,9 +2015,36 @@ export class CubyzConnection extends EventEmitter {
   setPosition(x: number, y: number, z: number): void {
     this.playerState.position = { x, y, z };
     this.playerState.velocity = { x: 0, y: 0, z: 0 };
+    this.onGround = false;
     this.publishPlayerState(true);
   }
 
+  // The server is authoritative over the bot's position: adopt a teleport
+  // and send it straight back, so the next state packet does not undo it.
+  private applyServerPosition(position: Vector3): void {
+    const previous = this.playerState.position;
+    const distance = Math.hypot(
+      position.x - previous.x,
+      position.y - previous.y,
+      position.z - previous.z,
+    );
+    this.confirmedPosition = { ...position };
+    this.playerState.position = { ...position };
+    this.playerState.velocity = { x: 0, y: 0, z: 0 };
+    this.onGround = false;
+    this.publishPlayerState(true);
+    if (distance > POSITION_CORRECTION_EPSILON) {
+      this.log("debug", "Position corrected by server", { previous, position });
+      const event: PositionCorrectedEvent = {
+        reason: "teleport",
+        previous: { ...previous },
+        position: { ...position },
+        distance,
+      };
+      this.emit("positionCorrected", event);
+    }
+  }
+
   publishPlayerState(force = false): void {
     if (!this.handshakeComplete) {
       return;
@@ -1298,12 +2086,99 @@ export class CubyzConnection extends EventEmitter {
     return buffer;
   }
 
+  // Movement applied on every player state tick until it is changed.
+  // Without the `physics` option the bot flies straight at `move`, including
+  // its vertical part, and cannot jump.
+  setMovementInput(input: MovementInput): void {
+    this.movementInput = {
+      move: input.move ? { ...input.move } : undefined,
+      jump: input.jump,
+    };
+    if (this.physics === null && !input.move) {
+      this.playerState.velocity = { x: 0, y: 0, z: 0 };
+    }
+  }
+
+  // The simulation behind the `physics` option, or null when it is off.
+  getPhysics(): PlayerPhysics | null {
+    return this.physics;
+  }
+
+  isOnGround(): boolean {
+    return this.onGround;
+  }
+
+  // Whether the bot flies straight at its movement input instead of being
+  // simulated: without the `physics` option, or in creative mode.
+  isFlying(): boolean {
+    return this.physics === null || this.gamemode === GAMEMODE.CREATIVE;
+  }
+
+  private stepPhysics(): void {
+    const now = Date.now();
+    const elapsed = Math.min(MAX_PHYSICS_STEP_MS, now - this.lastPhysicsStep);
+    this.lastPhysicsStep = now;
+    if (!this.handshakeComplete) {
+      return;
+    }
+    if (this.physics === null || this.isFlying()) {
+      this.glide(elapsed / 1000);
+      return;
+    }
+    const { x, y, z } = this.playerState.position;
+    if (!this.world.hasChunkAt(x, y, z)) {
+      // Hold still until the terrain around the bot has arrived.
+      this.playerState.velocity = { x: 0, y: 0, z: 0 };
+      return;
+    }
+    const next = this.physics.step(
+      {
+        position: this.playerState.position,
+        velocity: this.playerState.velocity,
+        onGround: this.onGround,
+      },
+      this.movementInput,
+      elapsed / 1000,
+      this.isSolidAt,
+    );
+    this.playerState.position = next.position;
+    this.playerState.velocity = next.velocity;
+    this.onGround = next.onGround;
+  }
+
+  private glide(seconds: number): void {
+    const move = this.movementInput.move;
+    if (!move) {
+      this.playerState.velocity = { x: 0, y: 0, z: 0 };
+      return;
+    }
+    this.onGround = false;
+    const velocity = { x: move.x, y: move.y, z: move.z ?? 0 };
+    const { position } = this.playerState;
+    this.playerState.position = {
+      x: position.x + velocity.x * seconds,
+      y: position.y + velocity.y * seconds,
+      z: position.z + velocity.z * seconds,
+    };
+    this.playerState.velocity = velocity;
+  }
+
+  // Unloaded blocks count as solid, so the bot waits for terrain to arrive
+  // instead of falling through it.
+  private readonly isSolidAt = (x: number, y: number, z: number): boolean => {
+    const block = this.world.getBlock(x, y, z);
+    return block === null || this.blockRegistry.isSolid(block);
+  };
+
   private startPlayerStateLoop(): void {
     if (this.playerStateTimer !== null) {
       return;
     }
+    this.lastPhysicsStep = Date.now();
     this.playerStateTimer = setInterval(() => {
+      this.stepPhysics();
       this.publishPlayerState();
+      this.updateChunkRequests();
     }, 100);
   }
 
@@ -1315,7 +2190,7 @@ export class CubyzConnection extends EventEmitter {
     this.disconnectSent = true;
     const buffer = Buffer.from([CHANNEL.DISCONNECT]);
     try {
-      this.socket.send(buffer, this.port, this.host, (err: Error | null) => {
+      this.sendDatagram(buffer, (err) => {
         if (err) {
           this.log("warn", "Failed to send disconnect packet:", err);
         }
@@ -1327,3 +2202,52 @@ export class CubyzConnection extends EventEmitter {
     }
   }
 }
+
+function resolveReconnectPolicy(
+  reconnect: boolean | ReconnectOptions,
+): Required<ReconnectOptions> | null {
+  if (reconnect === false) {
+    return null;
+  }
+  const options = reconnect === true ? {} : reconnect;
+  return {
+    maxAttempts: options.maxAttempts ?? Number.POSITIVE_INFINITY,
+    initialDelayMs: options.initialDelayMs ?? RECONNECT_INITIAL_DELAY_MS,
+    maxDelayMs: options.maxDelayMs ?? RECONNECT_MAX_DELAY_MS,
+    multiplier: options.multiplier ?? RECONNECT_MULTIPLIER,
+    jitter: Math.min(1, Math.max(0, options.jitter ?? RECONNECT_JITTER)),
+    restorePlayerState: options.restorePlayerState ?? true,
+  };
+}
+
+function clonePlayerState(state: PlayerState): PlayerState {
+  return {
+    position: { ...state.position },
+    velocity: { ...state.velocity },
+    rotation: { ...state.rotation },
+  };
+}
+
+async function signWith(
+  identity: Identity,
+  algorithm: SignatureAlgorithm,
+  data: Buffer,
+): Promise<Buffer> {
+  switch (algorithm) {
+    case "ed25519":
+      return signEd25519(identity.keys.ed25519PrivKey, data);
+    case "ecdsaP256Sha256":
+      return signP256(identity.keys.p256PrivKey, data);
+    case "mldsa44":
+      return signMlDsa44(identity.keys.mlDsa44PrivKey, data);
+  }
+}
+
+function resolveSignaturePolicy(
+  policy: SignaturePolicy = {},
+): Required<SignaturePolicy> {
+  return {
+    allowedAlgorithms: [...(policy.allowedAlgorithms ?? SIGNATURE_ALGORITHMS)],
+    allowPartialResponse: policy.allowPartialResponse ?? false,
+  };
+}
@@ -1,4 +1,13 @@
 import type { Buffer } from "node:buffer";
+import type { ChatQueueOptions } from "./chatQueue.js";
+import type { CongestionOptions } from "./congestion.js";
+import type { SignatureAlgorithm, SignatureRequest } from "./handshakeUtils.js";
+import type { PhysicsOptions } from "./physics.js";
+import type { BlockRayHit } from "./raycast.js";
+import type { ReceiveChannelStats } from "./receiveChannel.js";
+import type { ResolvedBlock } from "./registry.js";
+import type { SendChannelStats } from "./sendChannel.js";
+import type { ServerData } from "./serverData.js";
 
 export const DEG_TO_RAD = Math.PI / 180;
 
@@ -55,6 +64,28 @@ export interface BlockUpdate {
   position: Vector3;
   block: number;
   blockEntityData: Buffer;
+  // Palette ID and data bits of `block`, when the block palette is known.
+  resolved?: ResolvedBlock;
+}
+
+export interface RaycastHit extends BlockRayHit {
+  block: number;
+  // Palette ID of `block`, when the block palette is known.
+  name?: string;
+}
+
+export interface ChunkPosition {
+  wx: number;
+  wy: number;
+  wz: number;
+  voxelSize: number;
+}
+
+export interface Chunk {
+  position: ChunkPosition;
+  // CHUNK_VOLUME block values indexed by (x << 10) | (y << 5) | z, where x/y/z
+  // are local voxel coordinates (world offset divided by voxelSize).
+  blocks: Uint32Array;
 }
 
 export const GENERIC_UPDATE_TYPE = {
@@ -96,6 +127,15 @@ export interface TeleportUpdate {
   position: Vector3;
 }
 
+// The server moved the bot away from where it predicted itself to be.
+export interface PositionCorrectedEvent {
+  reason: "teleport";
+  // The locally predicted position that was overridden.
+  previous: Vector3;
+  position: Vector3;
+  distance: number;
+}
+
 export interface WorldEditPosUpdate {
   type: "worldEditPos";
   positionType: WorldEditPositionType;
@@ -110,6 +150,8 @@ export interface TimeUpdate {
 export interface BiomeUpdate {
   type: "biome";
   biomeId: number;
+  // Palette ID of `biomeId`, when the biome palette is known.
+  biome?: string;
 }
 
 export interface ParticlesUpdate {
@@ -157,6 +199,25 @@ export interface CubyzConnectionLogger {
   debug?: (...args: unknown[]) => void;
 }
 
+export interface ReconnectOptions {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+  // Fraction of the computed delay that is randomised in both directions.
+  jitter?: number;
+  // Re-apply the last known player state once the new session is in the world.
+  restorePlayerState?: boolean;
+}
+
+export interface SignaturePolicy {
+  // Algorithms the client agrees to sign with; defaults to every supported one.
+  allowedAlgorithms?: SignatureAlgorithm[];
+  // When some requested algorithms are refused, still answer with the
+  // signatures that could be made instead of disconnecting.
+  allowPartialResponse?: boolean;
+}
+
 export interface CubyzConnectionOptions {
   host: string;
   port: number;
@@ -165,6 +226,50 @@ export interface CubyzConnectionOptions {
   logger?: CubyzConnectionLogger;
   logLevel?: LogLevel;
   identityFile?: string;
+  reconnect?: boolean | ReconnectOptions;
+  // Radius in chunks to request around the player; 0 disables automatic requests.
+  renderDistance?: number;
+  // Directory for caching inflated handshake assets per server.
+  assetCacheDir?: string;
+  signaturePolicy?: SignaturePolicy;
+  // Rate limit and backlog size for queueChat().
+  chatQueue?: ChatQueueOptions;
+  // Milliseconds between `stats` events; 0 disables them.
+  statsInterval?: number;
+  // Resend timeout bounds and congestion window sizes.
+  congestion?: CongestionOptions;
+  // Simulate gravity and collisions against loaded chunks (needs
+  // renderDistance); `true` uses the default player dimensions.
+  physics?: boolean | PhysicsOptions;
+}
+
+export interface ChannelStats extends SendChannelStats, ReceiveChannelStats {}
+
+// Counters for the current session; they start over on reconnect.
+export interface ConnectionStats {
+  // Round-trip times in ms, null until the first sample.
+  rtt: number | null;
+  rttVariance: number | null;
+  latestRtt: number | null;
+  // Retransmission timeout derived from the RTT estimate, and the timeout
+  // in use after backing off for consecutive losses.
+  rto: number;
+  resendTimeout: number;
+  // Bytes that may be unacknowledged at once, and the bytes that are.
+  congestionWindow: number;
+  bytesInFlight: number;
+  bytesSent: number;
+  bytesReceived: number;
+  datagramsSent: number;
+  datagramsReceived: number;
+  // Resends over all channels, and their share of sent packets.
+  resends: number;
+  resendRate: number;
+  channels: {
+    lossy: ChannelStats;
+    secure: ChannelStats;
+    slow: ChannelStats;
+  };
 }
 
 export interface CloseOptions {
@@ -185,18 +290,86 @@ export interface PendingConfirmation {
 
 export type CubyzConnectionEvents = {
   connected: [];
-  handshakeComplete: [string];
+  handshakeComplete: [string, ServerData];
   chat: [string];
   blockUpdate: [BlockUpdate[]];
+  chunkLoaded: [Chunk];
+  chunkUnloaded: [ChunkPosition];
   players: [PlayersEvent];
   entityPositions: [EntityPositionPacket];
   genericUpdate: [GenericUpdate];
+  positionCorrected: [PositionCorrectedEvent];
   protocol: [ProtocolEvent];
   disconnect: [DisconnectEvent];
+  reconnecting: [ReconnectingEvent];
+  reconnected: [ReconnectedEvent];
+  reconnectFailed: [ReconnectFailedEvent];
+  authFailed: [AuthFailedEvent];
+  stats: [ConnectionStats];
 };
 
+export interface WaitForOptions<A extends unknown[]> {
+  // Only settle for emissions the predicate accepts.
+  predicate?: (...args: A) => boolean;
+  // Reject with a WaitForTimeoutError after this many milliseconds.
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface EventIteratorOptions {
+  // Ends the iteration when aborted.
+  signal?: AbortSignal;
+}
+
+export interface SendChatLongOptions {
+  // Milliseconds between messages (default: CHAT_SPLIT_INTERVAL_MS).
+  interval?: number;
+  signal?: AbortSignal;
+}
+
+export interface StartOptions {
+  // Resolve only once `handshakeComplete` fires, rejecting on `disconnect`.
+  waitForHandshake?: boolean;
+  // Milliseconds to wait for the handshake before closing and rejecting.
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
 export interface DisconnectEvent {
-  reason: "server" | "timeout";
+  reason: "server" | "timeout" | "authFailed";
+}
+
+export type AuthFailureReason =
+  | "noIdentity"
+  | "malformedRequest"
+  | "unknownAlgorithm"
+  | "algorithmNotAllowed"
+  | "signingFailed";
+
+export interface AuthFailedEvent {
+  reason: AuthFailureReason;
+  message: string;
+  // The parsed request, or null if it could not be parsed.
+  request: SignatureRequest | null;
+  // Requested algorithms that were not signed.
+  rejectedAlgorithms: string[];
+  // True if a partial response was sent anyway (see SignaturePolicy); the
+  // connection is closed otherwise.
+  responseSent: boolean;
+}
+
+export interface ReconnectingEvent {
+  attempt: number;
+  delayMs: number;
+  reason: DisconnectEvent["reason"];
+}
+
+export interface ReconnectedEvent {
+  attempt: number;
+}
+
+export interface ReconnectFailedEvent {
+  attempts: number;
 }
 
 export type PlayersEvent = PlayerData[];
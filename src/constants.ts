@@ -16,6 +16,8 @@ export type SequencedChannelId =
 
 export const PROTOCOL = {
   HANDSHAKE: 1,
+  CHUNK_REQUEST: 2,
+  CHUNK_TRANSMISSION: 3,
   PLAYER_STATE: 4,
   ENTITY_POSITION: 6,
   BLOCK_UPDATE: 7,
@@ -39,13 +41,72 @@ export const HANDSHAKE_STATE = {
 export type HandshakeState =
   (typeof HANDSHAKE_STATE)[keyof typeof HANDSHAKE_STATE];
 
+export const CHUNK_COMPRESSION = {
+  DEFLATE_WITH_POSITION: 0,
+  DEFLATE: 1,
+  UNIFORM: 2,
+  DEFLATE_WITH_8BIT_PALETTE: 3,
+} as const;
+
+export type ChunkCompression =
+  (typeof CHUNK_COMPRESSION)[keyof typeof CHUNK_COMPRESSION];
+
+export const CHUNK_SHIFT = 5;
+export const CHUNK_SIZE = 1 << CHUNK_SHIFT;
+export const CHUNK_VOLUME = CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE;
+// Chunk requests without an answer after this long are sent again.
+export const CHUNK_REQUEST_TIMEOUT_MS = 10_000;
+// Larger handshake asset archives are refused rather than inflated.
+export const ASSETS_MAX_INFLATED_BYTES = 256 * 1024 * 1024;
+
 export const DEFAULT_PORT = 47649;
 export const DEFAULT_VERSION = "0.3.0";
 
 export const RESEND_TIMEOUT_MS = 500;
+export const RTO_MIN_MS = 100;
+export const RTO_MAX_MS = 10_000;
+export const STATS_INTERVAL_MS = 5000;
 export const INIT_RESEND_INTERVAL_MS = 100;
 export const CONFIRMATION_BATCH_SIZE = 16;
 export const KEEP_ALIVE_INTERVAL_MS = 2000;
 export const KEEP_ALIVE_TIMEOUT_MS = KEEP_ALIVE_INTERVAL_MS * 4;
 export const AWAITING_SERVER_TIMEOUT_MS = 15_000;
 export const MTU = 548; // matches minMtu from the Zig implementation
+// Packets sent per channel on every 20 ms tick, at most.
+export const MAX_PACKETS_PER_TICK = 32;
+export const CONGESTION_INITIAL_WINDOW = 4 * MTU;
+export const CONGESTION_MIN_WINDOW = 2 * MTU;
+export const CONGESTION_MAX_WINDOW = 64 * MTU;
+export const CONGESTION_MAX_BACKOFF = 6;
+// Pause between the parts of a split chat message, to stay clear of the
+// server's spam limit.
+export const CHAT_SPLIT_INTERVAL_MS = 1000;
+export const CHAT_QUEUE_RATE = 1; // messages per second
+export const CHAT_QUEUE_BURST = 3;
+export const CHAT_QUEUE_MAX_BACKLOG = 50;
+
+// Player physics, in blocks and seconds.  The hitbox is centered on the
+// player position, as on the server.
+export const PLAYER_HALF_WIDTH = 0.3;
+export const PLAYER_HALF_HEIGHT = 0.9;
+// Eyes are this far above the position, 1.6 blocks above the feet.
+export const PLAYER_EYE_OFFSET = 0.7;
+export const PHYSICS_GRAVITY = 30;
+export const PHYSICS_TERMINAL_VELOCITY = 90;
+export const PHYSICS_JUMP_HEIGHT = 1.25;
+export const PHYSICS_STEP_HEIGHT = 0.6;
+export const PHYSICS_GROUND_FRICTION = 20;
+export const PHYSICS_AIR_FRICTION = 2;
+export const MOVEMENT_TICK_MS = 50;
+export const MOVEMENT_WALK_SPEED = 4; // blocks per second
+// A movement that makes no progress for this long fails as stuck.
+export const MOVEMENT_STUCK_TIMEOUT_MS = 1500;
+export const PATHFINDER_MAX_FALL = 3; // blocks
+export const PATHFINDER_MAX_NODES = 10_000;
+// Route plans allowed per followPath() call after the first.
+export const PATHFINDER_MAX_REPLANS = 5;
+
+export const RECONNECT_INITIAL_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 30_000;
+export const RECONNECT_MULTIPLIER = 2;
+export const RECONNECT_JITTER = 0.2;
@@ -1,31 +1,26 @@
 import { Buffer } from "node:buffer";
 import { randomInt } from "node:crypto";
 import type { Identity } from "./authentication.js";
-import { buildPublicKeysZon } from "./authentication.js";
+import { publicKeysZonValue } from "./authentication.js";
+import { decodeVarInt, encodeVarInt } from "./binary.js";
 import { HANDSHAKE_STATE, type HandshakeState } from "./constants.js";
+import { stringifyZon, type ZonValue } from "./zon.js";
 
 export function randomSequence(): number {
   return randomInt(0, 0x7fffffff);
 }
 
-export function escapeZonString(value: string): string {
-  return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"');
-}
-
 export function buildHandshakePayload(
   name: string,
   version: string,
   identity?: Identity,
 ): Buffer {
-  const safeName = escapeZonString(name);
-  const safeVersion = escapeZonString(version);
-  let zon: string;
+  const userData: Record<string, ZonValue> = { version, name };
   if (identity) {
-    const keysZon = buildPublicKeysZon(identity.keys);
-    zon = `.{.version = "${safeVersion}", .name = "${safeName}", .keys = ${keysZon}}`;
-  } else {
-    zon = `.{.version = "${safeVersion}", .name = "${safeName}"}`;
+    userData.keys = publicKeysZonValue(identity.keys);
   }
+  // The server expects names as raw UTF-8, not as \u{...} escapes.
+  const zon = stringifyZon(userData, { asciiOnly: false });
   const prefix = Buffer.from([HANDSHAKE_STATE.USER_DATA]);
   return Buffer.concat([prefix, Buffer.from(zon, "utf8")]);
 }
@@ -42,3 +37,111 @@ export function parseHandshake(payload: Buffer): HandshakeMessage {
   const state = payload[0] as HandshakeState;
   return { state, data: payload.slice(1) };
 }
+
+export const SIGNATURE_ALGORITHMS = [
+  "ed25519",
+  "ecdsaP256Sha256",
+  "mldsa44",
+] as const;
+
+export type SignatureAlgorithm = (typeof SIGNATURE_ALGORITHMS)[number];
+
+// Signatures in a response are concatenated without a length prefix, so the
+// size of each one is fixed by its algorithm.
+export const SIGNATURE_LENGTHS: Record<SignatureAlgorithm, number> = {
+  ed25519: 64,
+  ecdsaP256Sha256: 64,
+  mldsa44: 2420,
+};
+
+export function isSignatureAlgorithm(name: string): name is SignatureAlgorithm {
+  return (SIGNATURE_ALGORITHMS as readonly string[]).includes(name);
+}
+
+// Algorithm names as sent by the server; they are not necessarily known.
+export interface SignatureRequest {
+  algorithms: string[];
+}
+
+export interface SignatureEntry {
+  algorithm: SignatureAlgorithm;
+  signature: Buffer;
+}
+
+export interface SignatureResponse {
+  signatures: SignatureEntry[];
+}
+
+// signatureRequest: [varint len][algorithm 1][varint len (0 if none)][algorithm 2]
+// `data` excludes the handshake state byte.
+export function parseSignatureRequest(data: Buffer): SignatureRequest {
+  const algorithms: string[] = [];
+  let offset = 0;
+  while (offset < data.length && algorithms.length < 2) {
+    const length = decodeVarInt(data, offset);
+    offset += length.consumed;
+    if (offset + length.value > data.length) {
+      throw new Error("Signature request truncated");
+    }
+    if (length.value > 0) {
+      algorithms.push(
+        data.slice(offset, offset + length.value).toString("utf8"),
+      );
+    }
+    offset += length.value;
+  }
+  if (algorithms.length === 0) {
+    throw new Error("Signature request names no algorithm");
+  }
+  return { algorithms };
+}
+
+export function encodeSignatureRequest(request: SignatureRequest): Buffer {
+  if (request.algorithms.length === 0 || request.algorithms.length > 2) {
+    throw new RangeError("A signature request names one or two algorithms");
+  }
+  const [first, second] = request.algorithms.map((name) =>
+    Buffer.from(name, "utf8"),
+  );
+  const secondBytes = second ?? Buffer.alloc(0);
+  return Buffer.concat([
+    Buffer.from([HANDSHAKE_STATE.SIGNATURE_REQUEST]),
+    encodeVarInt(first.length),
+    first,
+    encodeVarInt(secondBytes.length),
+    secondBytes,
+  ]);
+}
+
+// signatureResponse: [state byte = 3][signature 1][optional signature 2]
+export function encodeSignatureResponse(response: SignatureResponse): Buffer {
+  return Buffer.concat([
+    Buffer.from([HANDSHAKE_STATE.SIGNATURE_RESPONSE]),
+    ...response.signatures.map((entry) => entry.signature),
+  ]);
+}
+
+// Split a response (without the state byte) into the signatures for the
+// algorithms that were requested, in order.
+export function parseSignatureResponse(
+  data: Buffer,
+  algorithms: SignatureAlgorithm[],
+): SignatureResponse {
+  const signatures: SignatureEntry[] = [];
+  let offset = 0;
+  for (const algorithm of algorithms) {
+    const length = SIGNATURE_LENGTHS[algorithm];
+    if (offset + length > data.length) {
+      throw new Error(`Signature response truncated (${algorithm})`);
+    }
+    signatures.push({
+      algorithm,
+      signature: data.slice(offset, offset + length),
+    });
+    offset += length;
+  }
+  if (offset !== data.length) {
+    throw new Error("Signature response has trailing data");
+  }
+  return { signatures };
+}
@@ -1,14 +1,72 @@
-export { countVisibleCharacters, prepareChatMessage } from "./chatFormat.js";
+export type { AssetCacheOptions, AssetCategory } from "./assets.js";
+export {
+  ASSET_CATEGORIES,
+  AssetTree,
+  encodeAssetArchive,
+  parseAssetArchive,
+} from "./assets.js";
+export type { SplitChatOptions } from "./chatFormat.js";
+export {
+  countVisibleCharacters,
+  MAX_MESSAGE_BYTES,
+  MAX_VISIBLE_CHARACTERS,
+  prepareChatMessage,
+  splitChatMessage,
+} from "./chatFormat.js";
+export type { ChatSpan, ChatStyle } from "./chatMarkup.js";
+export {
+  ChatMessageBuilder,
+  escapeChatMarkup,
+  parseChatMarkup,
+  toAnsi,
+  toHtml,
+  toPlainText,
+} from "./chatMarkup.js";
 export type {
+  ChatPriority,
+  ChatQueueErrorReason,
+  ChatQueueOptions,
+  ChatQueueSendOptions,
+} from "./chatQueue.js";
+export { CHAT_PRIORITY, ChatQueue, ChatQueueError } from "./chatQueue.js";
+export type {
+  ArgumentContext,
+  ArgumentShape,
+  ChatLine,
+  CommandContext,
+  CommandDefinition,
+  CommandRouterEvents,
+  CommandRouterOptions,
+  InferArguments,
+} from "./commandRouter.js";
+export {
+  arg,
+  CommandArgument,
+  CommandError,
+  CommandRouter,
+  parseChatLine,
+  tokenizeCommand,
+} from "./commandRouter.js";
+export type { CongestionOptions } from "./congestion.js";
+export { CongestionController } from "./congestion.js";
+export type {
+  AuthFailedEvent,
+  AuthFailureReason,
   BiomeUpdate,
   BlockUpdate,
+  ChannelStats,
+  Chunk,
+  ChunkPosition,
   ClearUpdate,
   CloseOptions,
+  ConnectionState,
+  ConnectionStats,
   CubyzConnectionLogger,
   CubyzConnectionOptions,
   DisconnectEvent,
   EntityPositionPacket,
   EntitySnapshot,
+  EventIteratorOptions,
   Gamemode,
   GamemodeUpdate,
   GenericUpdate,
@@ -18,11 +76,112 @@ export type {
   PlayerData,
   PlayerState,
   PlayersEvent,
+  PositionCorrectedEvent,
   ProtocolEvent,
+  RaycastHit,
+  ReconnectedEvent,
+  ReconnectFailedEvent,
+  ReconnectingEvent,
+  ReconnectOptions,
+  SendChatLongOptions,
+  SignaturePolicy,
+  StartOptions,
   TeleportUpdate,
   TimeUpdate,
   Vector3,
+  WaitForOptions,
   WorldEditPosUpdate,
 } from "./connection.js";
-export { CubyzConnection, GAMEMODE } from "./connection.js";
+export {
+  ConnectionClosedError,
+  CubyzConnection,
+  GAMEMODE,
+  WaitForTimeoutError,
+} from "./connection.js";
 export * from "./constants.js";
+export type {
+  SignatureAlgorithm,
+  SignatureEntry,
+  SignatureRequest,
+  SignatureResponse,
+} from "./handshakeUtils.js";
+export {
+  encodeSignatureRequest,
+  encodeSignatureResponse,
+  parseSignatureRequest,
+  parseSignatureResponse,
+  SIGNATURE_ALGORITHMS,
+  SIGNATURE_LENGTHS,
+} from "./handshakeUtils.js";
+export type {
+  MockBlockUpdate,
+  MockClient,
+  MockCubyzServerEvents,
+  MockCubyzServerOptions,
+  MockEntityPosition,
+  MockItemPosition,
+  MockPlayerState,
+} from "./mockServer.js";
+export { MockCubyzServer } from "./mockServer.js";
+export type {
+  LookRotation,
+  MovementControllerOptions,
+  MovementErrorReason,
+  StrafeDirection,
+  StrafeOptions,
+  WalkOptions,
+} from "./movementController.js";
+export {
+  directionFromRotation,
+  eyePosition,
+  MovementController,
+  MovementError,
+  rotationTowards,
+} from "./movementController.js";
+export type {
+  FollowPathOptions,
+  PathfinderErrorReason,
+  PathfinderOptions,
+  PathResult,
+  PathStatus,
+} from "./pathfinder.js";
+export { Pathfinder, PathfinderError } from "./pathfinder.js";
+export type {
+  BoundingBox,
+  MovementInput,
+  PhysicsOptions,
+  PhysicsState,
+  SolidBlockCheck,
+} from "./physics.js";
+export { PlayerPhysics } from "./physics.js";
+export type { BlockFace, BlockRayHit } from "./raycast.js";
+export { BLOCK_FACE_NORMALS, raycastBlocks } from "./raycast.js";
+export type { ReceiveChannelStats } from "./receiveChannel.js";
+export type { ResolvedBlock } from "./registry.js";
+export {
+  BiomeRegistry,
+  BlockRegistry,
+  ItemRegistry,
+  paletteFromZon,
+} from "./registry.js";
+export type { RttEstimatorOptions } from "./rttEstimator.js";
+export { RttEstimator } from "./rttEstimator.js";
+export type { SendChannelStats } from "./sendChannel.js";
+export type { ServerData, ServerPlayerData } from "./serverData.js";
+export { parseServerData } from "./serverData.js";
+export type {
+  BlockChange,
+  BlockChangeListener,
+  BlockEntry,
+  BlockRegion,
+} from "./world.js";
+export { World } from "./world.js";
+export type { ZonStringifyOptions, ZonValue } from "./zon.js";
+export { parseZon, stringifyZon, ZonParseError } from "./zon.js";
+export type {
+  InferZon,
+  ZonIssue,
+  ZonPath,
+  ZonSafeParseResult,
+} from "./zonSchema.js";
+export { formatZonPath, ZonSchema, ZonSchemaError, z } from "./zonSchema.js";
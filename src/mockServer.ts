@@ -0,0 +1,995 @@
+import { Buffer } from "node:buffer";
+import { randomInt } from "node:crypto";
+import dgram from "node:dgram";
+import { EventEmitter } from "node:events";
+import { deflateRawSync } from "node:zlib";
+import { encodeAssetArchive } from "./assets.js";
+import { verifyEd25519, verifyMlDsa44, verifyP256 } from "./authentication.js";
+import { encodeVarInt, readInt32BE, writeInt32BE } from "./binary.js";
+import {
+  type CubyzConnectionLogger,
+  ENTITY_POSITION_TYPE,
+  GENERIC_UPDATE_TYPE,
+  type GenericUpdate,
+  LOG_LEVEL_ORDER,
+  type LogLevel,
+  type PendingConfirmation,
+  type ProtocolEvent,
+  type Vector3,
+  WORLD_EDIT_POSITION,
+} from "./connectionTypes.js";
+import {
+  CHANNEL,
+  CONFIRMATION_BATCH_SIZE,
+  HANDSHAKE_STATE,
+  KEEP_ALIVE_INTERVAL_MS,
+  KEEP_ALIVE_TIMEOUT_MS,
+  MAX_PACKETS_PER_TICK,
+  PROTOCOL,
+  type SequencedChannelId,
+} from "./constants.js";
+import {
+  encodeSignatureRequest,
+  isSignatureAlgorithm,
+  parseHandshake,
+  parseSignatureResponse,
+  randomSequence,
+  type SignatureAlgorithm,
+  type SignatureResponse,
+} from "./handshakeUtils.js";
+import { parseChannelPacket, ReceiveChannel } from "./receiveChannel.js";
+import { SecureChannelServerHandler } from "./secureChannel.js";
+import { SendChannel } from "./sendChannel.js";
+import { parseZon, stringifyZon, type ZonValue } from "./zon.js";
+
+export interface MockClient {
+  readonly address: string;
+  readonly port: number;
+  readonly playerId: number;
+  name: string | null;
+  version: string | null;
+  // Base64 public keys from the client's user data, by algorithm.
+  publicKeys: Record<string, string>;
+  // True once SERVER_DATA has been sent.
+  ready: boolean;
+}
+
+export interface MockPlayerState {
+  position: Vector3;
+  velocity: Vector3;
+  rotation: Vector3;
+  timestamp: number;
+}
+
+export interface MockBlockUpdate {
+  position: Vector3;
+  block: number;
+  blockEntityData?: Buffer;
+}
+
+export interface MockEntityPosition {
+  id: number;
+  position: Vector3;
+  velocity?: Vector3;
+  rotation?: Vector3;
+}
+
+export interface MockItemPosition {
+  index: number;
+  position: Vector3;
+  velocity?: Vector3;
+}
+
+export interface MockCubyzServerOptions {
+  host?: string;
+  // 0 picks a free port; see `listen()`.
+  port?: number;
+  // Algorithms requested in the signature request (at most two).  An empty
+  // list skips the signature exchange.  Unknown names can be used to test a
+  // client's signature policy.
+  signatureAlgorithms?: string[];
+  verifySignatures?: boolean;
+  // Files sent in the ASSETS handshake step.  Omitted when not set.
+  assets?: Map<string, Buffer>;
+  // Fields merged over the default SERVER_DATA payload.
+  serverData?:
+    | Record<string, ZonValue>
+    | ((client: MockClient) => Record<string, ZonValue>);
+  logger?: CubyzConnectionLogger;
+  logLevel?: LogLevel;
+}
+
+export type MockCubyzServerEvents = {
+  listening: [number];
+  clientConnected: [MockClient];
+  clientReady: [MockClient];
+  clientDisconnected: [MockClient];
+  handshakeFailed: [MockClient, Error];
+  signatureResponse: [MockClient, SignatureResponse];
+  chat: [MockClient, string];
+  playerState: [MockClient, MockPlayerState];
+  protocol: [MockClient, ProtocolEvent];
+};
+
+interface MockSession {
+  client: MockClient;
+  connectionId: bigint;
+  connected: boolean;
+  sendChannels: Record<SequencedChannelId, SendChannel>;
+  receiveChannels: Map<SequencedChannelId, ReceiveChannel>;
+  secureChannel: SecureChannelServerHandler;
+  pendingConfirmations: PendingConfirmation[];
+  // Secure messages are handled one at a time, like in CubyzConnection.
+  messageChain: Promise<void>;
+  lastInbound: number;
+  lastKeepAliveSent: number;
+}
+
+function sessionKey(address: string, port: number): string {
+  return `${address}:${port}`;
+}
+
+function vec3Zon(vector: Vector3): ZonValue {
+  return [vector.x, vector.y, vector.z];
+}
+
+function encodeBlockUpdates(updates: MockBlockUpdate[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const update of updates) {
+    const data = update.blockEntityData ?? Buffer.alloc(0);
+    const header = Buffer.alloc(24);
+    header.writeInt32BE(update.position.x, 0);
+    header.writeInt32BE(update.position.y, 4);
+    header.writeInt32BE(update.position.z, 8);
+    header.writeUInt32BE(update.block >>> 0, 12);
+    header.writeBigUInt64BE(BigInt(data.length), 16);
+    parts.push(header, data);
+  }
+  return Buffer.concat(parts);
+}
+
+function encodeEntityPositions(
+  entities: MockEntityPosition[],
+  items: MockItemPosition[],
+): Buffer {
+  const base = entities[0]?.position ??
+    items[0]?.position ?? { x: 0, y: 0, z: 0 };
+  const parts: Buffer[] = [];
+  const header = Buffer.alloc(2 + 24);
+  header.writeInt16BE(((Date.now() & 0xffff) << 16) >> 16, 0);
+  header.writeDoubleBE(base.x, 2);
+  header.writeDoubleBE(base.y, 10);
+  header.writeDoubleBE(base.z, 18);
+  parts.push(header);
+  const writeVec3f32 = (buffer: Buffer, offset: number, vector: Vector3) => {
+    buffer.writeFloatBE(vector.x, offset);
+    buffer.writeFloatBE(vector.y, offset + 4);
+    buffer.writeFloatBE(vector.z, offset + 8);
+  };
+  for (const entity of entities) {
+    const velocity = entity.velocity;
+    const entry = Buffer.alloc(1 + (velocity ? 12 : 0) + 4 + 12 + 12);
+    let offset = 0;
+    entry[offset++] = velocity
+      ? ENTITY_POSITION_TYPE.F32_VELOCITY_ENTITY
+      : ENTITY_POSITION_TYPE.NO_VELOCITY_ENTITY;
+    if (velocity) {
+      writeVec3f32(entry, offset, velocity);
+      offset += 12;
+    }
+    entry.writeUInt32BE(entity.id >>> 0, offset);
+    offset += 4;
+    writeVec3f32(entry, offset, {
+      x: entity.position.x - base.x,
+      y: entity.position.y - base.y,
+      z: entity.position.z - base.z,
+    });
+    offset += 12;
+    writeVec3f32(entry, offset, entity.rotation ?? { x: 0, y: 0, z: 0 });
+    parts.push(entry);
+  }
+  for (const item of items) {
+    const velocity = item.velocity;
+    const entry = Buffer.alloc(1 + (velocity ? 12 : 0) + 2 + 12);
+    let offset = 0;
+    entry[offset++] = velocity
+      ? ENTITY_POSITION_TYPE.F32_VELOCITY_ITEM
+      : ENTITY_POSITION_TYPE.NO_VELOCITY_ITEM;
+    if (velocity) {
+      writeVec3f32(entry, offset, velocity);
+      offset += 12;
+    }
+    entry.writeUInt16BE(item.index & 0xffff, offset);
+    offset += 2;
+    writeVec3f32(entry, offset, {
+      x: item.position.x - base.x,
+      y: item.position.y - base.y,
+      z: item.position.z - base.z,
+    });
+    parts.push(entry);
+  }
+  return Buffer.concat(parts);
+}
+
+function encodeGenericUpdate(update: GenericUpdate): Buffer {
+  switch (update.type) {
+    case "gamemode":
+      return Buffer.from([GENERIC_UPDATE_TYPE.GAMEMODE, update.gamemode]);
+    case "teleport": {
+      const buffer = Buffer.alloc(1 + 24);
+      buffer[0] = GENERIC_UPDATE_TYPE.TELEPORT;
+      buffer.writeDoubleBE(update.position.x, 1);
+      buffer.writeDoubleBE(update.position.y, 9);
+      buffer.writeDoubleBE(update.position.z, 17);
+      return buffer;
+    }
+    case "worldEditPos": {
+      const hasPosition =
+        update.positionType !== WORLD_EDIT_POSITION.CLEAR &&
+        update.position !== null;
+      const buffer = Buffer.alloc(2 + (hasPosition ? 12 : 0));
+      buffer[0] = GENERIC_UPDATE_TYPE.WORLD_EDIT_POS;
+      buffer[1] = update.positionType;
+      if (hasPosition && update.position) {
+        buffer.writeInt32BE(update.position.x, 2);
+        buffer.writeInt32BE(update.position.y, 6);
+        buffer.writeInt32BE(update.position.z, 10);
+      }
+      return buffer;
+    }
+    case "time": {
+      const buffer = Buffer.alloc(1 + 8);
+      buffer[0] = GENERIC_UPDATE_TYPE.TIME;
+      buffer.writeBigInt64BE(update.time, 1);
+      return buffer;
+    }
+    case "biome": {
+      const buffer = Buffer.alloc(1 + 4);
+      buffer[0] = GENERIC_UPDATE_TYPE.BIOME;
+      buffer.writeUInt32BE(update.biomeId >>> 0, 1);
+      return buffer;
+    }
+    case "particles": {
+      const particleId = Buffer.from(update.particleId, "utf8");
+      const spawnZon = Buffer.from(update.spawnZon, "utf8");
+      const position = Buffer.alloc(24 + 1);
+      position.writeDoubleBE(update.position.x, 0);
+      position.writeDoubleBE(update.position.y, 8);
+      position.writeDoubleBE(update.position.z, 16);
+      position[24] = update.collides ? 1 : 0;
+      return Buffer.concat([
+        Buffer.from([GENERIC_UPDATE_TYPE.PARTICLES]),
+        encodeVarInt(particleId.length),
+        particleId,
+        position,
+        encodeVarInt(update.count),
+        encodeVarInt(spawnZon.length),
+        spawnZon,
+      ]);
+    }
+    case "clear":
+      return Buffer.from([GENERIC_UPDATE_TYPE.CLEAR, 0]);
+  }
+}
+
+function decodePlayerState(payload: Buffer): MockPlayerState | null {
+  if (payload.length < 62) {
+    return null;
+  }
+  const readVec3d = (offset: number): Vector3 => ({
+    x: payload.readDoubleBE(offset),
+    y: payload.readDoubleBE(offset + 8),
+    z: payload.readDoubleBE(offset + 16),
+  });
+  return {
+    position: readVec3d(0),
+    velocity: readVec3d(24),
+    rotation: {
+      x: payload.readFloatBE(48),
+      y: payload.readFloatBE(52),
+      z: payload.readFloatBE(56),
+    },
+    timestamp: payload.readUInt16BE(60),
+  };
+}
+
+async function verifySignature(
+  algorithm: SignatureAlgorithm,
+  publicKeyBase64: string | undefined,
+  message: Buffer,
+  signature: Buffer,
+): Promise<boolean> {
+  if (publicKeyBase64 === undefined) {
+    return false;
+  }
+  const publicKey = Buffer.from(publicKeyBase64, "base64");
+  switch (algorithm) {
+    case "ed25519":
+      return verifyEd25519(publicKey, message, signature);
+    case "ecdsaP256Sha256":
+      return verifyP256(publicKey, message, signature);
+    case "mldsa44":
+      return verifyMlDsa44(publicKey, message, signature);
+  }
+}
+
+/**
+ * MockCubyzServer is an in-process stand-in for a Cubyz server, meant for
+ * testing bots offline.  It speaks the same UDP channel protocol, TLS
+ * handshake and login sequence as the real server, then lets the test push
+ * chat, block updates, entity positions and generic updates to its clients.
+ */
+export class MockCubyzServer extends EventEmitter {
+  private readonly host: string;
+  private readonly requestedPort: number;
+  private readonly signatureAlgorithms: string[];
+  private readonly verifySignatures: boolean;
+  private readonly assets: Map<string, Buffer> | null;
+  private readonly serverDataOption: MockCubyzServerOptions["serverData"];
+  private readonly baseLogger: CubyzConnectionLogger;
+  private readonly logLevel: LogLevel;
+  private readonly socket = dgram.createSocket("udp4");
+  private readonly sessions = new Map<string, MockSession>();
+  private tickTimer: NodeJS.Timeout | null = null;
+  private nextPlayerId = 1;
+  private listeningPort: number | null = null;
+
+  constructor({
+    host = "127.0.0.1",
+    port = 0,
+    signatureAlgorithms = ["ed25519"],
+    verifySignatures = true,
+    assets,
+    serverData,
+    logger = console,
+    logLevel = "error",
+  }: MockCubyzServerOptions = {}) {
+    super();
+    if (signatureAlgorithms.length > 2) {
+      throw new RangeError("At most two signature algorithms can be requested");
+    }
+    this.host = host;
+    this.requestedPort = port;
+    this.signatureAlgorithms = [...signatureAlgorithms];
+    this.verifySignatures = verifySignatures;
+    this.assets = assets ?? null;
+    this.serverDataOption = serverData;
+    this.baseLogger = logger ?? console;
+    this.logLevel = (
+      logLevel in LOG_LEVEL_ORDER ? logLevel : "error"
+    ) as LogLevel;
+
+    this.socket.on("message", (msg: Buffer, rinfo: dgram.RemoteInfo) => {
+      try {
+        this.handlePacket(msg, rinfo.address, rinfo.port);
+      } catch (err) {
+        this.log("error", "Failed to process packet:", err);
+      }
+    });
+    this.socket.on("error", (err: Error) => {
+      this.log("error", "Socket error:", err);
+    });
+  }
+
+  on<K extends keyof MockCubyzServerEvents>(
+    event: K,
+    listener: (...args: MockCubyzServerEvents[K]) => void,
+  ): this {
+    return super.on(event, listener);
+  }
+
+  once<K extends keyof MockCubyzServerEvents>(
+    event: K,
+    listener: (...args: MockCubyzServerEvents[K]) => void,
+  ): this {
+    return super.once(event, listener);
+  }
+
+  off<K extends keyof MockCubyzServerEvents>(
+    event: K,
+    listener: (...args: MockCubyzServerEvents[K]) => void,
+  ): this {
+    return super.off(event, listener);
+  }
+
+  emit<K extends keyof MockCubyzServerEvents>(
+    event: K,
+    ...args: MockCubyzServerEvents[K]
+  ): boolean {
+    return super.emit(event, ...args);
+  }
+
+  get port(): number | null {
+    return this.listeningPort;
+  }
+
+  // Bind the UDP socket and resolve with the port in use.
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve, reject) => {
+      const onError = (err: Error) => {
+        this.socket.off("listening", onListening);
+        reject(err);
+      };
+      const onListening = () => {
+        this.socket.off("error", onError);
+        resolve();
+      };
+      this.socket.once("error", onError);
+      this.socket.once("listening", onListening);
+      this.socket.bind(this.requestedPort, this.host);
+    });
+    this.listeningPort = this.socket.address().port;
+    this.tickTimer = setInterval(() => this.tick(), 20);
+    this.log("info", `Mock server listening on ${this.host}:${this.port}`);
+    this.emit("listening", this.listeningPort);
+    return this.listeningPort;
+  }
+
+  // Disconnect every client and release the socket.
+  async close(): Promise<void> {
+    if (this.tickTimer !== null) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    if (this.listeningPort === null) {
+      return;
+    }
+    await Promise.all(
+      [...this.sessions.values()].map(
+        (session) =>
+          new Promise<void>((resolve) => {
+            this.socket.send(
+              Buffer.from([CHANNEL.DISCONNECT]),
+              session.client.port,
+              session.client.address,
+              () => resolve(),
+            );
+          }),
+      ),
+    );
+    for (const session of [...this.sessions.values()]) {
+      this.dropSession(session);
+    }
+    this.listeningPort = null;
+    await new Promise<void>((resolve) => this.socket.close(() => resolve()));
+  }
+
+  getClients(): MockClient[] {
+    return [...this.sessions.values()].map((session) => session.client);
+  }
+
+  kick(client: MockClient): void {
+    const session = this.sessionFor(client);
+    if (!session) {
+      return;
+    }
+    this.socket.send(
+      Buffer.from([CHANNEL.DISCONNECT]),
+      client.port,
+      client.address,
+    );
+    this.dropSession(session);
+  }
+
+  // Send a raw protocol message.  SECURE messages go through TLS; LOSSY and
+  // SLOW ones are framed directly on their channel.
+  send(
+    client: MockClient,
+    protocolId: number,
+    payload: Buffer,
+    channelId: SequencedChannelId = CHANNEL.SECURE,
+  ): void {
+    const session = this.sessionFor(client);
+    if (!session) {
+      throw new Error(`Unknown client ${client.address}:${client.port}`);
+    }
+    if (channelId === CHANNEL.SECURE) {
+      session.secureChannel.sendMessage(protocolId, payload);
+      return;
+    }
+    session.sendChannels[channelId].queue(protocolId, payload);
+  }
+
+  // The optional `client` limits a push to one client; otherwise every client
+  // that finished the handshake receives it.
+  pushChat(message: string, client?: MockClient): void {
+    this.broadcast(PROTOCOL.CHAT, Buffer.from(message, "utf8"), client);
+  }
+
+  pushBlockUpdates(updates: MockBlockUpdate[], client?: MockClient): void {
+    this.broadcast(PROTOCOL.BLOCK_UPDATE, encodeBlockUpdates(updates), client);
+  }
+
+  // Each push is a complete snapshot and must fit into a single packet.
+  pushEntityPositions(
+    entities: MockEntityPosition[],
+    items: MockItemPosition[] = [],
+    client?: MockClient,
+  ): void {
+    this.broadcast(
+      PROTOCOL.ENTITY_POSITION,
+      encodeEntityPositions(entities, items),
+      client,
+      CHANNEL.LOSSY,
+    );
+  }
+
+  pushGenericUpdate(update: GenericUpdate, client?: MockClient): void {
+    this.broadcast(
+      PROTOCOL.GENERIC_UPDATE,
+      encodeGenericUpdate(update),
+      client,
+    );
+  }
+
+  private broadcast(
+    protocolId: number,
+    payload: Buffer,
+    client: MockClient | undefined,
+    channelId: SequencedChannelId = CHANNEL.SECURE,
+  ): void {
+    const targets = client ? [client] : this.readyClients();
+    for (const target of targets) {
+      this.send(target, protocolId, payload, channelId);
+    }
+  }
+
+  private readyClients(): MockClient[] {
+    return this.getClients().filter((client) => client.ready);
+  }
+
+  private sessionFor(client: MockClient): MockSession | undefined {
+    const session = this.sessions.get(sessionKey(client.address, client.port));
+    return session?.client === client ? session : undefined;
+  }
+
+  private log(level: LogLevel, ...args: unknown[]): void {
+    if (
+      level === "silent" ||
+      LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[this.logLevel]
+    ) {
+      return;
+    }
+    const method =
+      level === "debug"
+        ? this.baseLogger.debug
+        : level === "info"
+          ? this.baseLogger.info
+          : level === "warn"
+            ? this.baseLogger.warn
+            : this.baseLogger.error;
+    method?.(...args);
+  }
+
+  private handlePacket(buffer: Buffer, address: string, port: number): void {
+    if (buffer.length === 0) {
+      return;
+    }
+    const key = sessionKey(address, port);
+    if (buffer[0] === CHANNEL.INIT) {
+      this.handleInitPacket(buffer, address, port);
+      return;
+    }
+    const session = this.sessions.get(key);
+    if (!session) {
+      return;
+    }
+    session.lastInbound = Date.now();
+    switch (buffer[0]) {
+      case CHANNEL.CONFIRMATION:
+        for (let offset = 1; offset + 7 <= buffer.length; offset += 7) {
+          const channel =
+            session.sendChannels[buffer[offset] as SequencedChannelId];
+          channel?.handleAck(readInt32BE(buffer, offset + 3));
+        }
+        break;
+      case CHANNEL.KEEP_ALIVE:
+        break;
+      case CHANNEL.DISCONNECT:
+        this.dropSession(session);
+        break;
+      default:
+        this.handleSequencedPacket(session, buffer);
+    }
+  }
+
+  // The client opens with [INIT][connection ID][3 × initial sequence] and
+  // answers our init with [INIT][connection ID].
+  private handleInitPacket(
+    buffer: Buffer,
+    address: string,
+    port: number,
+  ): void {
+    const key = sessionKey(address, port);
+    let session = this.sessions.get(key);
+    if (buffer.length === 1 + 8) {
+      if (session && !session.connected) {
+        session.connected = true;
+        this.log("debug", `Client ${key} acknowledged init`);
+      }
+      return;
+    }
+    if (buffer.length < 1 + 8 + 12) {
+      return;
+    }
+    if (!session) {
+      session = this.createSession(
+        address,
+        port,
+        readInt32BE(buffer, 9),
+        readInt32BE(buffer, 13),
+        readInt32BE(buffer, 17),
+      );
+      this.sessions.set(key, session);
+      this.log("info", `Client connected from ${key}`);
+      this.emit("clientConnected", session.client);
+    }
+    session.lastInbound = Date.now();
+    const reply = Buffer.alloc(1 + 8 + 12);
+    reply[0] = CHANNEL.INIT;
+    reply.writeBigInt64BE(session.connectionId, 1);
+    writeInt32BE(reply, 9, session.sendChannels[CHANNEL.LOSSY].initialSequence);
+    writeInt32BE(
+      reply,
+      13,
+      session.sendChannels[CHANNEL.SECURE].initialSequence,
+    );
+    writeInt32BE(reply, 17, session.sendChannels[CHANNEL.SLOW].initialSequence);
+    this.socket.send(reply, port, address);
+  }
+
+  private createSession(
+    address: string,
+    port: number,
+    lossyStart: number,
+    secureStart: number,
+    slowStart: number,
+  ): MockSession {
+    const sendChannels = {
+      [CHANNEL.LOSSY]: new SendChannel(CHANNEL.LOSSY, randomSequence()),
+      [CHANNEL.SECURE]: new SendChannel(CHANNEL.SECURE, randomSequence()),
+      [CHANNEL.SLOW]: new SendChannel(CHANNEL.SLOW, randomSequence()),
+    } as Record<SequencedChannelId, SendChannel>;
+    const secureChannel = new SecureChannelServerHandler({
+      sendChannel: sendChannels[CHANNEL.SECURE],
+    });
+    const secureRecv = new ReceiveChannel(CHANNEL.SECURE, secureStart);
+    secureRecv.rawBytesCallback = (data: Buffer) => {
+      secureChannel.feedRawBytes(data);
+    };
+    const session: MockSession = {
+      client: {
+        address,
+        port,
+        playerId: this.nextPlayerId++,
+        name: null,
+        version: null,
+        publicKeys: {},
+        ready: false,
+      },
+      connectionId: BigInt.asIntN(
+        64,
+        (BigInt(Date.now()) << 20n) | BigInt(randomInt(0, 0xfffff)),
+      ),
+      connected: false,
+      sendChannels,
+      receiveChannels: new Map([
+        [CHANNEL.LOSSY, new ReceiveChannel(CHANNEL.LOSSY, lossyStart)],
+        [CHANNEL.SECURE, secureRecv],
+        [CHANNEL.SLOW, new ReceiveChannel(CHANNEL.SLOW, slowStart)],
+      ]),
+      secureChannel,
+      pendingConfirmations: [],
+      messageChain: Promise.resolve(),
+      lastInbound: Date.now(),
+      lastKeepAliveSent: Date.now(),
+    };
+    secureChannel.onError = (err: Error) => {
+      this.log("error", "Secure channel error:", err);
+      this.failHandshake(session, err);
+    };
+    secureChannel.onSecureConnect = () => {
+      this.log("debug", `TLS handshake complete with ${address}:${port}`);
+    };
+    secureChannel.onMessage = (msg) => {
+      session.messageChain = session.messageChain
+        .then(() =>
+          this.handleProtocol(
+            session,
+            CHANNEL.SECURE,
+            msg.protocolId,
+            msg.payload,
+          ),
+        )
+        .catch((err) => {
+          this.log("error", `Secure protocol ${msg.protocolId} failed:`, err);
+        });
+    };
+    return session;
+  }
+
+  private dropSession(session: MockSession): void {
+    const key = sessionKey(session.client.address, session.client.port);
+    if (this.sessions.get(key) !== session) {
+      return;
+    }
+    this.sessions.delete(key);
+    const wasReady = session.client.ready;
+    session.client.ready = false;
+    this.log("info", `Client ${key} disconnected`);
+    this.emit("clientDisconnected", session.client);
+    if (wasReady) {
+      this.broadcastEntities([session.client.playerId]);
+    }
+  }
+
+  private failHandshake(session: MockSession, err: Error): void {
+    this.emit("handshakeFailed", session.client, err);
+    this.kick(session.client);
+  }
+
+  private handleSequencedPacket(session: MockSession, buffer: Buffer): void {
+    const parsed = parseChannelPacket(buffer);
+    const channel = session.receiveChannels.get(parsed.channelId);
+    if (!channel) {
+      return;
+    }
+    const result = channel.handlePacket(parsed.start, parsed.payload);
+    if (!result.accepted) {
+      return;
+    }
+    session.pendingConfirmations.push({
+      channelId: parsed.channelId,
+      start: result.ackStart,
+      timestamp: Date.now(),
+    });
+    for (const message of result.messages) {
+      this.handleProtocol(
+        session,
+        parsed.channelId,
+        message.protocolId,
+        message.payload,
+      ).catch((err) => {
+        this.log("error", `Protocol ${message.protocolId} failed:`, err);
+      });
+    }
+  }
+
+  private async handleProtocol(
+    session: MockSession,
+    channelId: number,
+    protocolId: number,
+    payload: Buffer,
+  ): Promise<void> {
+    switch (protocolId) {
+      case PROTOCOL.HANDSHAKE:
+        await this.handleHandshake(session, payload);
+        break;
+      case PROTOCOL.CHAT:
+        this.emit("chat", session.client, payload.toString("utf8"));
+        break;
+      case PROTOCOL.PLAYER_STATE: {
+        const state = decodePlayerState(payload);
+        if (state) {
+          this.emit("playerState", session.client, state);
+        }
+        break;
+      }
+      default:
+        this.emit("protocol", session.client, {
+          channelId,
+          protocolId,
+          payload,
+        });
+    }
+  }
+
+  private async handleHandshake(
+    session: MockSession,
+    payload: Buffer,
+  ): Promise<void> {
+    const { state, data } = parseHandshake(payload);
+    switch (state) {
+      case HANDSHAKE_STATE.USER_DATA: {
+        const userData = parseZon(data.toString("utf8"));
+        if (
+          typeof userData === "object" &&
+          userData !== null &&
+          !Array.isArray(userData)
+        ) {
+          const { name, version, keys } = userData;
+          session.client.name = typeof name === "string" ? name : null;
+          session.client.version = typeof version === "string" ? version : null;
+          if (typeof keys === "object" && keys !== null) {
+            for (const [algorithm, value] of Object.entries(keys)) {
+              if (typeof value === "string") {
+                session.client.publicKeys[algorithm] = value;
+              }
+            }
+          }
+        }
+        if (this.signatureAlgorithms.length === 0) {
+          this.completeLogin(session);
+          return;
+        }
+        session.secureChannel.sendMessage(
+          PROTOCOL.HANDSHAKE,
+          encodeSignatureRequest({ algorithms: this.signatureAlgorithms }),
+        );
+        break;
+      }
+      case HANDSHAKE_STATE.SIGNATURE_RESPONSE: {
+        // Only known algorithms can be split out of the response.
+        const known = this.signatureAlgorithms.filter(isSignatureAlgorithm);
+        let response: SignatureResponse;
+        try {
+          response = parseSignatureResponse(data, known);
+        } catch (err) {
+          this.failHandshake(session, err as Error);
+          return;
+        }
+        this.emit("signatureResponse", session.client, response);
+        if (this.verifySignatures) {
+          const error = await this.verifyResponse(session, known, response);
+          if (error) {
+            this.failHandshake(session, error);
+            return;
+          }
+        }
+        this.completeLogin(session);
+        break;
+      }
+      default:
+        this.log("debug", `Unhandled handshake state ${state}`);
+    }
+  }
+
+  private async verifyResponse(
+    session: MockSession,
+    known: SignatureAlgorithm[],
+    response: SignatureResponse,
+  ): Promise<Error | null> {
+    if (known.length < this.signatureAlgorithms.length) {
+      return new Error("Requested an algorithm the client cannot provide");
+    }
+    const verificationData =
+      session.secureChannel.verificationDataBuffer ?? Buffer.alloc(0);
+    for (const { algorithm, signature } of response.signatures) {
+      const valid = await verifySignature(
+        algorithm,
+        session.client.publicKeys[algorithm],
+        verificationData,
+        signature,
+      );
+      if (!valid) {
+        return new Error(`Invalid ${algorithm} signature`);
+      }
+    }
+    return null;
+  }
+
+  private completeLogin(session: MockSession): void {
+    const { client } = session;
+    if (this.assets !== null) {
+      session.secureChannel.sendMessage(
+        PROTOCOL.HANDSHAKE,
+        Buffer.concat([
+          Buffer.from([HANDSHAKE_STATE.ASSETS]),
+          deflateRawSync(encodeAssetArchive(this.assets)),
+        ]),
+      );
+    }
+    const spawn = { x: 0, y: 0, z: 0 };
+    const overrides =
+      typeof this.serverDataOption === "function"
+        ? this.serverDataOption(client)
+        : (this.serverDataOption ?? {});
+    const serverData: Record<string, ZonValue> = {
+      player_id: client.playerId,
+      spawn: vec3Zon(spawn),
+      player: {
+        position: vec3Zon(spawn),
+        velocity: vec3Zon({ x: 0, y: 0, z: 0 }),
+        rotation: vec3Zon({ x: 0, y: 0, z: 0 }),
+        gamemode: "survival",
+      },
+      worldName: "mock",
+      blockPalette: ["cubyz:air"],
+      itemPalette: [],
+      biomePalette: ["cubyz:plains"],
+      ...overrides,
+    };
+    session.secureChannel.sendMessage(
+      PROTOCOL.HANDSHAKE,
+      Buffer.concat([
+        Buffer.from([HANDSHAKE_STATE.SERVER_DATA]),
+        Buffer.from(stringifyZon(serverData, { asciiOnly: false }), "utf8"),
+      ]),
+    );
+    client.ready = true;
+    this.log("info", `Client ${client.name ?? client.playerId} logged in`);
+
+    // Tell the new client about everyone, and everyone about the new client.
+    const entries = this.readyClients().map((other) => ({
+      id: other.playerId,
+      name: other.name,
+    }));
+    this.send(
+      client,
+      PROTOCOL.ENTITY,
+      Buffer.from(stringifyZon(entries, { asciiOnly: false })),
+    );
+    this.broadcastEntities(
+      [{ id: client.playerId, name: client.name }],
+      client,
+    );
+    this.emit("clientReady", client);
+  }
+
+  // Entity list update: numbers remove players, structs add them.
+  private broadcastEntities(entries: ZonValue[], except?: MockClient): void {
+    const payload = Buffer.from(
+      stringifyZon(entries, { asciiOnly: false }),
+      "utf8",
+    );
+    for (const client of this.readyClients()) {
+      if (client !== except) {
+        this.send(client, PROTOCOL.ENTITY, payload);
+      }
+    }
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    for (const session of [...this.sessions.values()]) {
+      const { client } = session;
+      if (now - session.lastInbound >= KEEP_ALIVE_TIMEOUT_MS) {
+        this.log("warn", `Client ${client.address}:${client.port} timed out`);
+        this.dropSession(session);
+        continue;
+      }
+      if (now - session.lastKeepAliveSent >= KEEP_ALIVE_INTERVAL_MS) {
+        session.lastKeepAliveSent = now;
+        this.socket.send(
+          Buffer.from([CHANNEL.KEEP_ALIVE]),
+          client.port,
+          client.address,
+        );
+      }
+      this.flushConfirmations(session, now);
+      for (const channel of Object.values(session.sendChannels)) {
+        for (let i = 0; i < MAX_PACKETS_PER_TICK && channel.hasWork(); i++) {
+          const packet = channel.getPacket(now);
+          if (!packet) {
+            break;
+          }
+          const buffer = Buffer.alloc(5 + packet.payload.length);
+          buffer[0] = channel.channelId;
+          writeInt32BE(buffer, 1, packet.start);
+          packet.payload.copy(buffer, 5);
+          this.socket.send(buffer, client.port, client.address);
+        }
+      }
+    }
+  }
+
+  private flushConfirmations(session: MockSession, now: number): void {
+    while (session.pendingConfirmations.length > 0) {
+      const batch = session.pendingConfirmations.splice(
+        0,
+        CONFIRMATION_BATCH_SIZE,
+      );
+      const buffer = Buffer.alloc(1 + batch.length * (1 + 2 + 4));
+      buffer[0] = CHANNEL.CONFIRMATION;
+      let offset = 1;
+      for (const entry of batch) {
+        buffer[offset] = entry.channelId;
+        const half = Math.floor((now - entry.timestamp) / 2);
+        buffer.writeUInt16BE(Math.max(0, Math.min(0xffff, half)), offset + 1);
+        writeInt32BE(buffer, offset + 3, entry.start);
+        offset += 7;
+      }
+      this.socket.send(buffer, session.client.port, session.client.address);
+    }
+  }
+}
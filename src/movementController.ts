@@ -0,0 +1,459 @@
+import { ConnectionClosedError, type CubyzConnection } from "./connection.js";
+import {
+  DEG_TO_RAD,
+  type DisconnectEvent,
+  type Vector3,
+} from "./connectionTypes.js";
+import {
+  MOVEMENT_STUCK_TIMEOUT_MS,
+  MOVEMENT_TICK_MS,
+  MOVEMENT_WALK_SPEED,
+  PLAYER_EYE_OFFSET,
+} from "./constants.js";
+import type { MovementInput } from "./physics.js";
+
+// Less movement than this, in blocks, does not count as progress.
+const PROGRESS_EPSILON = 0.1;
+// How long a walk must be blocked before the bot tries to jump.
+const AUTO_JUMP_DELAY_MS = 250;
+// The bot slows down when it is this many seconds away from the target, so
+// it does not overshoot.
+const ARRIVAL_SECONDS = 0.2;
+// Smaller heading changes are not sent while walking.
+const FACE_THRESHOLD_DEG = 5;
+
+export type MovementErrorReason =
+  // No progress for `stuckTimeout` ms, e.g. against a wall.
+  | "stuck"
+  // stop() was called.
+  | "stopped"
+  // Another movement took over.
+  | "interrupted"
+  // The server teleported the bot.
+  | "corrected"
+  // The `timeout` option elapsed.
+  | "timeout"
+  // jump() needs simulated physics: the connection's `physics` option,
+  // outside creative mode.
+  | "noPhysics";
+
+export class MovementError extends Error {
+  public readonly reason: MovementErrorReason;
+
+  constructor(reason: MovementErrorReason, message: string) {
+    super(message);
+    this.name = "MovementError";
+    this.reason = reason;
+  }
+}
+
+export interface MovementControllerOptions {
+  // Milliseconds without progress before a movement fails (default: 1500).
+  stuckTimeout?: number;
+}
+
+export interface WalkOptions {
+  // Blocks per second (default: 4).
+  speed?: number;
+  // Distance from the target that counts as arrived (default: 0.2).
+  tolerance?: number;
+  // Turn towards the direction of travel (default: true).
+  face?: boolean;
+  // Jump when blocked while standing on the ground (default: true).
+  autoJump?: boolean;
+  // Reject with reason "timeout" after this many milliseconds.
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export type StrafeDirection = "left" | "right";
+
+export interface StrafeOptions {
+  // Blocks per second (default: 4).
+  speed?: number;
+  signal?: AbortSignal;
+}
+
+// Yaw and pitch in degrees, as taken by CubyzConnection.setRotation().
+export interface LookRotation {
+  yaw: number;
+  pitch: number;
+}
+
+// Rotation that looks from `from` towards `to`.  Yaw 0 faces +y and grows
+// towards +x; positive pitch looks down.
+export function rotationTowards(from: Vector3, to: Vector3): LookRotation {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const dz = to.z - from.z;
+  return {
+    yaw: Math.atan2(dx, dy) / DEG_TO_RAD,
+    pitch: -Math.atan2(dz, Math.hypot(dx, dy)) / DEG_TO_RAD,
+  };
+}
+
+// Unit vector the bot looks along for a PlayerState rotation (radians,
+// pitch in x and yaw in z).
+export function directionFromRotation(rotation: Vector3): Vector3 {
+  const pitch = rotation.x;
+  const yaw = rotation.z;
+  return {
+    x: Math.sin(yaw) * Math.cos(pitch),
+    y: Math.cos(yaw) * Math.cos(pitch),
+    z: -Math.sin(pitch),
+  };
+}
+
+export function eyePosition(position: Vector3): Vector3 {
+  return { ...position, z: position.z + PLAYER_EYE_OFFSET };
+}
+
+function noPhysicsError(): MovementError {
+  return new MovementError(
+    "noPhysics",
+    "Jumping needs the physics option and does not work in creative mode",
+  );
+}
+
+interface MoveAction {
+  // Velocity to hold at `position`, or null once the action is complete.
+  velocity: (position: Vector3, now: number) => Vector3 | null;
+  // Grows as the action advances; used to detect being stuck.
+  progress: (position: Vector3) => number;
+  autoJump: boolean;
+  face: boolean;
+  bestProgress: number;
+  lastProgressAt: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  cleanup: () => void;
+}
+
+interface PendingJump {
+  // "waiting" for the bot to stand on the ground, "launching" while the
+  // jump input is held, then "airborne" until it lands again.
+  phase: "waiting" | "launching" | "airborne";
+  launchedAt: number;
+  settlers: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+/**
+ * Moves the bot over time instead of teleporting it.  Movements set the
+ * connection's movement input on every tick, so state packets carry the
+ * actual velocity; with the `physics` option the bot walks and jumps through
+ * the world, otherwise it flies straight to its target.
+ *
+ * One movement runs at a time: starting another rejects the current one
+ * with reason "interrupted".  A jump can overlap a movement.
+ */
+export class MovementController {
+  public readonly stuckTimeout: number;
+  private readonly connection: CubyzConnection;
+  private action: MoveAction | null = null;
+  private jumping: PendingJump | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private lastYaw: number | null = null;
+  private readonly correctedListener = () => {
+    this.lastYaw = null;
+    this.failAll(
+      new MovementError("corrected", "The server moved the bot elsewhere"),
+    );
+  };
+  private readonly disconnectListener = (event: DisconnectEvent) => {
+    this.failAll(new ConnectionClosedError(event.reason));
+  };
+
+  constructor(
+    connection: CubyzConnection,
+    {
+      stuckTimeout = MOVEMENT_STUCK_TIMEOUT_MS,
+    }: MovementControllerOptions = {},
+  ) {
+    this.connection = connection;
+    this.stuckTimeout = Math.max(0, stuckTimeout);
+    connection.on("positionCorrected", this.correctedListener);
+    connection.on("disconnect", this.disconnectListener);
+  }
+
+  // Whether a movement or jump is in progress.
+  get busy(): boolean {
+    return this.action !== null || this.jumping !== null;
+  }
+
+  // Walk to `target`.  Unless the bot flies only the horizontal distance
+  // counts, since the terrain decides the height.
+  walkTo(target: Vector3, options: WalkOptions = {}): Promise<void> {
+    const {
+      speed = MOVEMENT_WALK_SPEED,
+      tolerance = 0.2,
+      face = true,
+      autoJump = true,
+      timeout,
+      signal,
+    } = options;
+    const flying = this.connection.isFlying();
+    const goal = { ...target };
+    const offset = (position: Vector3): Vector3 => ({
+      x: goal.x - position.x,
+      y: goal.y - position.y,
+      z: flying ? goal.z - position.z : 0,
+    });
+    const distance = (position: Vector3): number => {
+      const { x, y, z } = offset(position);
+      return Math.hypot(x, y, z);
+    };
+    return this.start(
+      {
+        velocity: (position) => {
+          const remaining = distance(position);
+          if (remaining <= tolerance) {
+            return null;
+          }
+          const scale =
+            Math.min(speed, remaining / ARRIVAL_SECONDS) / remaining;
+          const { x, y, z } = offset(position);
+          return { x: x * scale, y: y * scale, z: z * scale };
+        },
+        progress: (position) => -distance(position),
+        autoJump: autoJump && !flying,
+        face,
+      },
+      timeout,
+      signal,
+    );
+  }
+
+  // Move sideways relative to the current heading for `duration` ms.
+  strafe(
+    direction: StrafeDirection,
+    duration: number,
+    options: StrafeOptions = {},
+  ): Promise<void> {
+    const { speed = MOVEMENT_WALK_SPEED, signal } = options;
+    const { position, rotation } = this.connection.getPlayerState();
+    const sign = direction === "right" ? 1 : -1;
+    const yaw = rotation.z;
+    // Yaw grows clockwise seen from above, so right is yaw + 90°.
+    const unit = { x: Math.cos(yaw) * sign, y: -Math.sin(yaw) * sign };
+    const origin = { ...position };
+    const endsAt = Date.now() + Math.max(0, duration);
+    return this.start(
+      {
+        velocity: (_position, now) =>
+          now >= endsAt ? null : { x: unit.x * speed, y: unit.y * speed, z: 0 },
+        progress: (current) =>
+          (current.x - origin.x) * unit.x + (current.y - origin.y) * unit.y,
+        autoJump: false,
+        face: false,
+      },
+      undefined,
+      signal,
+    );
+  }
+
+  // Jump once; resolves when the bot lands again.  A jump requested in the
+  // air happens after landing.  A flying bot never lands, so it cannot jump.
+  jump(): Promise<void> {
+    if (this.connection.isFlying()) {
+      return Promise.reject(noPhysicsError());
+    }
+    return new Promise<void>((resolve, reject) => {
+      if (this.jumping === null) {
+        this.jumping = { phase: "waiting", launchedAt: 0, settlers: [] };
+      }
+      this.jumping.settlers.push({ resolve, reject });
+      this.tick();
+    });
+  }
+
+  // Turn to look at `target` from the bot's eyes.
+  lookAt(target: Vector3): void {
+    const { position } = this.connection.getPlayerState();
+    const { yaw, pitch } = rotationTowards(eyePosition(position), target);
+    this.lastYaw = yaw;
+    this.connection.setRotation(yaw, pitch);
+  }
+
+  // Stop moving and reject everything in progress with reason "stopped".
+  stop(): void {
+    this.failAll(new MovementError("stopped", "Movement was stopped"));
+  }
+
+  // Stop and detach from the connection.
+  dispose(): void {
+    this.stop();
+    this.connection.off("positionCorrected", this.correctedListener);
+    this.connection.off("disconnect", this.disconnectListener);
+  }
+
+  private start(
+    parts: Pick<MoveAction, "velocity" | "progress" | "autoJump" | "face">,
+    timeout: number | undefined,
+    signal: AbortSignal | undefined,
+  ): Promise<void> {
+    if (this.action !== null) {
+      this.finish(
+        this.action,
+        new MovementError("interrupted", "Another movement took over"),
+      );
+    }
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => this.finish(action, signal?.reason);
+      const timer =
+        timeout === undefined
+          ? null
+          : setTimeout(
+              () =>
+                this.finish(
+                  action,
+                  new MovementError(
+                    "timeout",
+                    `Movement did not finish within ${timeout} ms`,
+                  ),
+                ),
+              timeout,
+            );
+      const action: MoveAction = {
+        ...parts,
+        bestProgress: Number.NEGATIVE_INFINITY,
+        lastProgressAt: Date.now(),
+        resolve,
+        reject,
+        cleanup: () => {
+          signal?.removeEventListener("abort", onAbort);
+          if (timer !== null) {
+            clearTimeout(timer);
+          }
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.action = action;
+      this.tick();
+    });
+  }
+
+  // Settle `action` if it is still the current one.  `error` is undefined
+  // for success.
+  private finish(action: MoveAction, error?: unknown): void {
+    if (this.action !== action) {
+      return;
+    }
+    this.action = null;
+    action.cleanup();
+    this.tick();
+    if (error === undefined) {
+      action.resolve();
+    } else {
+      action.reject(error);
+    }
+  }
+
+  private failAll(error: unknown): void {
+    if (this.action !== null) {
+      this.finish(this.action, error);
+    }
+    if (this.jumping !== null) {
+      this.settleJump(this.jumping, error);
+      this.tick();
+    }
+  }
+
+  private settleJump(jumping: PendingJump, error?: unknown): void {
+    this.jumping = null;
+    for (const settler of jumping.settlers) {
+      if (error === undefined) {
+        settler.resolve();
+      } else {
+        settler.reject(error);
+      }
+    }
+  }
+
+  // Work out the movement input for the current position and hand it to
+  // the connection.  Runs every MOVEMENT_TICK_MS while anything is active.
+  private tick(): void {
+    const state = this.connection.getState();
+    if (this.busy && (state === "closing" || state === "closed")) {
+      this.failAll(new ConnectionClosedError("closed"));
+      return;
+    }
+    const now = Date.now();
+    const { position } = this.connection.getPlayerState();
+    const onGround = this.connection.isOnGround();
+    const input: MovementInput = {};
+
+    const action = this.action;
+    if (action !== null) {
+      const velocity = action.velocity(position, now);
+      if (velocity === null) {
+        this.finish(action);
+        return;
+      }
+      const progress = action.progress(position);
+      if (progress > action.bestProgress + PROGRESS_EPSILON) {
+        action.bestProgress = progress;
+        action.lastProgressAt = now;
+      } else if (now - action.lastProgressAt >= this.stuckTimeout) {
+        this.finish(
+          action,
+          new MovementError("stuck", "The bot stopped making progress"),
+        );
+        return;
+      }
+      input.move = velocity;
+      input.jump =
+        action.autoJump &&
+        onGround &&
+        now - action.lastProgressAt >= AUTO_JUMP_DELAY_MS;
+      if (action.face && (velocity.x !== 0 || velocity.y !== 0)) {
+        this.face(velocity);
+      }
+    }
+
+    const jumping = this.jumping;
+    if (jumping !== null && this.connection.isFlying()) {
+      // Switched to creative mode before landing.
+      this.settleJump(jumping, noPhysicsError());
+    } else if (jumping !== null) {
+      if (!onGround) {
+        if (jumping.phase === "launching") {
+          jumping.phase = "airborne";
+        }
+      } else if (jumping.phase === "airborne") {
+        this.settleJump(jumping);
+      } else if (jumping.phase === "waiting") {
+        jumping.phase = "launching";
+        jumping.launchedAt = now;
+        input.jump = true;
+      } else if (now - jumping.launchedAt >= this.stuckTimeout) {
+        this.settleJump(
+          jumping,
+          new MovementError("stuck", "The bot could not leave the ground"),
+        );
+      } else {
+        input.jump = true;
+      }
+    }
+
+    this.connection.setMovementInput(input);
+    if (this.busy) {
+      this.timer ??= setInterval(() => this.tick(), MOVEMENT_TICK_MS);
+    } else if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private face(velocity: Vector3): void {
+    const yaw = Math.atan2(velocity.x, velocity.y) / DEG_TO_RAD;
+    const turn = this.lastYaw === null ? 180 : yaw - this.lastYaw;
+    if (Math.abs(((turn + 540) % 360) - 180) >= FACE_THRESHOLD_DEG) {
+      this.lastYaw = yaw;
+      this.connection.setRotation(yaw, 0);
+    }
+  }
+}
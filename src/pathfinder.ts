@@ -0,0 +1,520 @@
+import type { CubyzConnection } from "./connection.js";
+import type { Vector3 } from "./connectionTypes.js";
+import {
+  PATHFINDER_MAX_FALL,
+  PATHFINDER_MAX_NODES,
+  PATHFINDER_MAX_REPLANS,
+  PLAYER_HALF_HEIGHT,
+} from "./constants.js";
+import {
+  type MovementController,
+  MovementError,
+} from "./movementController.js";
+import type { SolidBlockCheck } from "./physics.js";
+import type { BlockChange } from "./world.js";
+
+// Extra cost of climbing onto a ledge, so flat detours of a few blocks win.
+const JUMP_COST = 1;
+// Extra cost per block dropped.
+const FALL_COST = 0.5;
+// How close the bot has to get to each waypoint before heading for the next.
+const WAYPOINT_TOLERANCE = 0.3;
+
+const DIRECTIONS: [number, number][] = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+export interface PathfinderOptions {
+  // Highest ledge climbed by jumping, in blocks (default: the physics jump
+  // height rounded down, or 1).
+  maxJump?: number;
+  // Deepest drop the bot walks off, in blocks (default: 3).
+  maxFall?: number;
+  // Nodes expanded before a search gives up (default: 10 000).
+  maxNodes?: number;
+  // Move diagonally where both neighbouring columns are free (default: true).
+  diagonal?: boolean;
+}
+
+export type PathStatus =
+  // The path ends at the goal.
+  | "found"
+  // The search expanded `maxNodes` nodes without reaching the goal.
+  | "budgetExceeded"
+  // Every reachable node was explored; the goal is not among them.
+  | "unreachable";
+
+export interface PathResult {
+  status: PathStatus;
+  // Positions to walk through, starting at the bot's own block.  Unless the
+  // goal was found, the path leads to the explored node closest to it.
+  path: Vector3[];
+  expanded: number;
+}
+
+export interface FollowPathOptions {
+  // Forwarded to MovementController.walkTo (default: 4 blocks/s).
+  speed?: number;
+  // Distance from the goal that counts as arrived (default: 0.2).
+  tolerance?: number;
+  // Times a route may be planned again after block changes or getting
+  // stuck (default: 5).
+  maxReplans?: number;
+  signal?: AbortSignal;
+}
+
+export type PathfinderErrorReason = PathStatus | "replanLimit";
+
+export class PathfinderError extends Error {
+  public readonly reason: Exclude<PathfinderErrorReason, "found">;
+
+  constructor(reason: PathfinderError["reason"], message: string) {
+    super(message);
+    this.name = "PathfinderError";
+    this.reason = reason;
+  }
+}
+
+interface PathNode {
+  x: number;
+  y: number;
+  z: number;
+  key: string;
+  cost: number;
+  estimate: number;
+  parent: PathNode | null;
+}
+
+function nodeKey(x: number, y: number, z: number): string {
+  return `${x},${y},${z}`;
+}
+
+// Binary min-heap on cost + estimate.
+class OpenSet {
+  private readonly heap: PathNode[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(node: PathNode): void {
+    const heap = this.heap;
+    heap.push(node);
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (score(heap[parent]) <= score(node)) {
+        break;
+      }
+      heap[index] = heap[parent];
+      index = parent;
+    }
+    heap[index] = node;
+  }
+
+  pop(): PathNode | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last !== undefined) {
+      let index = 0;
+      while (true) {
+        const left = index * 2 + 1;
+        if (left >= heap.length) {
+          break;
+        }
+        const right = left + 1;
+        const child =
+          right < heap.length && score(heap[right]) < score(heap[left])
+            ? right
+            : left;
+        if (score(heap[child]) >= score(last)) {
+          break;
+        }
+        heap[index] = heap[child];
+        index = child;
+      }
+      heap[index] = last;
+    }
+    return top;
+  }
+}
+
+function score(node: PathNode): number {
+  return node.cost + node.estimate;
+}
+
+// Octile distance horizontally plus the height difference; never more than
+// the real cost.
+function estimate(x: number, y: number, z: number, goal: Vector3): number {
+  const dx = Math.abs(goal.x - x);
+  const dy = Math.abs(goal.y - y);
+  return (
+    Math.max(dx, dy) +
+    (Math.SQRT2 - 1) * Math.min(dx, dy) +
+    Math.abs(goal.z - z)
+  );
+}
+
+/**
+ * A* search over the connection's local world.  Nodes are the blocks the
+ * bot's feet can occupy: a solid block below and enough free blocks above
+ * for its height.  From each node the bot can walk to a neighbour, jump onto
+ * a ledge up to `maxJump` blocks high or drop down up to `maxFall` blocks.
+ * Unloaded blocks are never walked through.
+ */
+export class Pathfinder {
+  public readonly maxFall: number;
+  public readonly maxNodes: number;
+  public readonly diagonal: boolean;
+  private readonly connection: CubyzConnection;
+  private readonly jumpOverride: number | undefined;
+
+  constructor(
+    connection: CubyzConnection,
+    {
+      maxJump,
+      maxFall = PATHFINDER_MAX_FALL,
+      maxNodes = PATHFINDER_MAX_NODES,
+      diagonal = true,
+    }: PathfinderOptions = {},
+  ) {
+    this.connection = connection;
+    this.jumpOverride =
+      maxJump === undefined ? undefined : Math.max(0, Math.floor(maxJump));
+    this.maxFall = Math.max(0, Math.floor(maxFall));
+    this.maxNodes = Math.max(1, Math.floor(maxNodes));
+    this.diagonal = diagonal;
+  }
+
+  get maxJump(): number {
+    const physics = this.connection.getPhysics();
+    return this.jumpOverride ?? (physics ? Math.floor(physics.jumpHeight) : 1);
+  }
+
+  // Blocks of headroom the bot needs.
+  get height(): number {
+    return Math.ceil(2 * this.halfHeight);
+  }
+
+  // The block a player at `position` stands in (its feet).
+  feetBlock(position: Vector3): Vector3 {
+    return {
+      x: Math.floor(position.x),
+      y: Math.floor(position.y),
+      z: Math.floor(position.z - this.halfHeight + 1e-6),
+    };
+  }
+
+  // Player position standing in the middle of the block at `feet`.
+  standingPosition(feet: Vector3): Vector3 {
+    return { x: feet.x + 0.5, y: feet.y + 0.5, z: feet.z + this.halfHeight };
+  }
+
+  // Plan a route between two player positions.
+  findPath(
+    from: Vector3,
+    to: Vector3,
+    options: Pick<PathfinderOptions, "maxNodes"> = {},
+  ): PathResult {
+    const maxNodes = options.maxNodes ?? this.maxNodes;
+    const isSolid = this.solidBlockCheck();
+    const start = this.feetBlock(from);
+    const goal = this.feetBlock(to);
+    const goalKey = nodeKey(goal.x, goal.y, goal.z);
+
+    const open = new OpenSet();
+    const best = new Map<string, PathNode>();
+    const closed = new Set<string>();
+    const first: PathNode = {
+      ...start,
+      key: nodeKey(start.x, start.y, start.z),
+      cost: 0,
+      estimate: estimate(start.x, start.y, start.z, goal),
+      parent: null,
+    };
+    open.push(first);
+    best.set(first.key, first);
+    let closest = first;
+    let expanded = 0;
+
+    while (open.size > 0) {
+      const node = open.pop() as PathNode;
+      if (closed.has(node.key)) {
+        continue;
+      }
+      if (node.key === goalKey) {
+        return { status: "found", path: this.toPath(node), expanded };
+      }
+      if (expanded >= maxNodes) {
+        return {
+          status: "budgetExceeded",
+          path: this.toPath(closest),
+          expanded,
+        };
+      }
+      closed.add(node.key);
+      expanded += 1;
+      if (node.estimate < closest.estimate) {
+        closest = node;
+      }
+      for (const [x, y, z, stepCost] of this.neighbours(node, isSolid)) {
+        const key = nodeKey(x, y, z);
+        if (closed.has(key)) {
+          continue;
+        }
+        const cost = node.cost + stepCost;
+        const known = best.get(key);
+        if (known && known.cost <= cost) {
+          continue;
+        }
+        const next: PathNode = {
+          x,
+          y,
+          z,
+          key,
+          cost,
+          estimate: estimate(x, y, z, goal),
+          parent: node,
+        };
+        best.set(key, next);
+        open.push(next);
+      }
+    }
+    return { status: "unreachable", path: this.toPath(closest), expanded };
+  }
+
+  // Walk to `to` along a planned route.  The route is planned again when a
+  // change blocks it or the bot gets stuck, up to `maxReplans` times.
+  async followPath(
+    movement: MovementController,
+    to: Vector3,
+    options: FollowPathOptions = {},
+  ): Promise<void> {
+    const {
+      speed,
+      tolerance = 0.2,
+      maxReplans = PATHFINDER_MAX_REPLANS,
+      signal,
+    } = options;
+    let replans = 0;
+    while (true) {
+      signal?.throwIfAborted();
+      const { position } = this.connection.getPlayerState();
+      const { status, path } = this.findPath(position, to);
+      if (status !== "found") {
+        throw new PathfinderError(
+          status,
+          status === "unreachable"
+            ? "No route to the target"
+            : `No route found within ${this.maxNodes} nodes`,
+        );
+      }
+      if (await this.walkPath(movement, path, to, speed, tolerance, signal)) {
+        return;
+      }
+      replans += 1;
+      if (replans > maxReplans) {
+        throw new PathfinderError(
+          "replanLimit",
+          `Gave up after planning the route ${replans} times`,
+        );
+      }
+    }
+  }
+
+  // Walk the waypoints and then to `to` itself.  Resolves false when the
+  // route needs planning again.
+  private async walkPath(
+    movement: MovementController,
+    path: Vector3[],
+    to: Vector3,
+    speed: number | undefined,
+    tolerance: number,
+    signal: AbortSignal | undefined,
+  ): Promise<boolean> {
+    const feet = path.map((position) => this.feetBlock(position));
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const unsubscribe = this.watchPath(feet, () => controller.abort());
+    try {
+      const legs = [
+        ...path.slice(1).map((waypoint) => ({
+          target: waypoint,
+          tolerance: WAYPOINT_TOLERANCE,
+        })),
+        { target: to, tolerance },
+      ];
+      for (const leg of legs) {
+        await movement.walkTo(leg.target, {
+          speed,
+          tolerance: leg.tolerance,
+          signal: controller.signal,
+        });
+      }
+      return true;
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (
+        controller.signal.aborted ||
+        (error instanceof MovementError && error.reason === "stuck")
+      ) {
+        return false;
+      }
+      throw error;
+    } finally {
+      unsubscribe();
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  // Call `onBlocked` when a change makes the path impassable: a block the bot
+  // passes through turns solid, or one it stands on stops being solid.
+  // Changes that keep a block as passable as it was, such as a chunk being
+  // sent again, do not count.
+  private watchPath(feet: Vector3[], onBlocked: () => void): () => void {
+    if (feet.length === 0) {
+      return () => {};
+    }
+    const floors = new Set<string>();
+    const clearance = new Set<string>();
+    for (const { x, y, z } of feet) {
+      floors.add(nodeKey(x, y, z - 1));
+      for (let dz = 0; dz < this.height; dz++) {
+        clearance.add(nodeKey(x, y, z + dz));
+      }
+    }
+    // Jumps need headroom above the take-off block, and drops the column the
+    // bot falls through, as checked by neighbours().
+    for (let i = 1; i < feet.length; i++) {
+      const from = feet[i - 1];
+      const to = feet[i];
+      const column = to.z > from.z ? from : to;
+      const top = Math.max(from.z, to.z) + this.height - 1;
+      for (let cz = Math.min(from.z, to.z) + this.height; cz <= top; cz++) {
+        clearance.add(nodeKey(column.x, column.y, cz));
+      }
+    }
+    const min = { ...feet[0] };
+    const max = { ...feet[0] };
+    for (const position of feet) {
+      for (const axis of ["x", "y", "z"] as const) {
+        min[axis] = Math.min(min[axis], position[axis]);
+        max[axis] = Math.max(max[axis], position[axis]);
+      }
+    }
+    min.z -= 1;
+    max.z += this.height - 1;
+    return this.connection
+      .getWorld()
+      .onChange({ min, max }, (changes: BlockChange[]) => {
+        const registry = this.connection.getBlockRegistry();
+        const blocked = changes.some(({ position, previous, block }) => {
+          if (previous === block) {
+            return false;
+          }
+          const key = nodeKey(position.x, position.y, position.z);
+          return registry.isSolid(block) ? clearance.has(key) : floors.has(key);
+        });
+        if (blocked) {
+          onBlocked();
+        }
+      });
+  }
+
+  private get halfHeight(): number {
+    return this.connection.getPhysics()?.halfHeight ?? PLAYER_HALF_HEIGHT;
+  }
+
+  // Unloaded blocks count as solid, so routes never lead into them.
+  private solidBlockCheck(): SolidBlockCheck {
+    const world = this.connection.getWorld();
+    const registry = this.connection.getBlockRegistry();
+    return (x, y, z) => {
+      const block = world.getBlock(x, y, z);
+      return block === null || registry.isSolid(block);
+    };
+  }
+
+  private *neighbours(
+    node: PathNode,
+    isSolid: SolidBlockCheck,
+  ): Generator<[number, number, number, number]> {
+    const height = this.height;
+    const { x, y, z } = node;
+    const clear = (cx: number, cy: number, from: number, to: number) => {
+      for (let cz = from; cz <= to; cz++) {
+        if (isSolid(cx, cy, cz)) {
+          return false;
+        }
+      }
+      return true;
+    };
+    const standable = (cx: number, cy: number, cz: number) =>
+      isSolid(cx, cy, cz - 1) && clear(cx, cy, cz, cz + height - 1);
+
+    for (const [dx, dy] of DIRECTIONS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (dx !== 0 && dy !== 0) {
+        // Diagonal moves stay level and must not cut a corner.
+        if (
+          this.diagonal &&
+          clear(nx, y, z, z + height - 1) &&
+          clear(x, ny, z, z + height - 1) &&
+          standable(nx, ny, z)
+        ) {
+          yield [nx, ny, z, Math.SQRT2];
+        }
+        continue;
+      }
+      if (standable(nx, ny, z)) {
+        yield [nx, ny, z, 1];
+        continue;
+      }
+      if (clear(nx, ny, z, z + height - 1)) {
+        // Walk off the edge and land on the first solid block below.
+        for (let drop = 1; drop <= this.maxFall; drop++) {
+          if (!clear(nx, ny, z - drop, z - drop)) {
+            break;
+          }
+          if (isSolid(nx, ny, z - drop - 1)) {
+            yield [nx, ny, z - drop, 1 + drop * (1 + FALL_COST)];
+            break;
+          }
+        }
+        continue;
+      }
+      // Jump onto a ledge, with headroom above the bot for the jump.
+      for (let rise = 1; rise <= this.maxJump; rise++) {
+        if (!clear(x, y, z + height - 1 + rise, z + height - 1 + rise)) {
+          break;
+        }
+        if (standable(nx, ny, z + rise)) {
+          yield [nx, ny, z + rise, 1 + rise * (1 + JUMP_COST)];
+          break;
+        }
+      }
+    }
+  }
+
+  private toPath(node: PathNode): Vector3[] {
+    const path: Vector3[] = [];
+    for (
+      let current: PathNode | null = node;
+      current;
+      current = current.parent
+    ) {
+      path.push(this.standingPosition(current));
+    }
+    return path.reverse();
+  }
+}
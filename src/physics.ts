@@ -0,0 +1,316 @@
+import type { Vector3 } from "./connectionTypes.js";
+import {
+  PHYSICS_AIR_FRICTION,
+  PHYSICS_GRAVITY,
+  PHYSICS_GROUND_FRICTION,
+  PHYSICS_JUMP_HEIGHT,
+  PHYSICS_STEP_HEIGHT,
+  PHYSICS_TERMINAL_VELOCITY,
+  PLAYER_HALF_HEIGHT,
+  PLAYER_HALF_WIDTH,
+} from "./constants.js";
+
+// Longer steps are split up so friction and gravity integrate the same way
+// regardless of the timer interval.  Collisions are swept, so they cannot
+// tunnel through blocks at any step length.
+const MAX_STEP_SECONDS = 0.05;
+// Tolerance for floating point error when the hitbox touches a block face.
+const EPSILON = 1e-7;
+
+export interface PhysicsOptions {
+  // Half the hitbox width and height (default: 0.3 and 0.9).
+  halfWidth?: number;
+  halfHeight?: number;
+  // Downward acceleration in blocks/s² (default: 30).
+  gravity?: number;
+  // Fastest fall speed in blocks/s (default: 90).
+  terminalVelocity?: number;
+  // Height of a standing jump in blocks (default: 1.25).
+  jumpHeight?: number;
+  // Ledges up to this height are climbed without jumping (default: 0.6).
+  stepHeight?: number;
+  // Rate per second at which horizontal velocity approaches the input
+  // velocity, on the ground and in the air (default: 20 and 2).
+  groundFriction?: number;
+  airFriction?: number;
+}
+
+// Whether the block at the given integer coordinates stops movement.
+export type SolidBlockCheck = (x: number, y: number, z: number) => boolean;
+
+export interface PhysicsState {
+  position: Vector3;
+  velocity: Vector3;
+  onGround: boolean;
+}
+
+export interface MovementInput {
+  // Horizontal velocity to accelerate towards, in blocks/s.  `z` is only
+  // used when the connection runs without physics and the bot flies.
+  move?: { x: number; y: number; z?: number };
+  // Jump whenever standing on the ground.
+  jump?: boolean;
+}
+
+export interface BoundingBox {
+  min: Vector3;
+  max: Vector3;
+}
+
+type Axis = "x" | "y" | "z";
+
+const CROSS_AXES: Record<Axis, [Axis, Axis]> = {
+  x: ["y", "z"],
+  y: ["x", "z"],
+  z: ["x", "y"],
+};
+
+function translate(box: BoundingBox, axis: Axis, delta: number): BoundingBox {
+  return {
+    min: { ...box.min, [axis]: box.min[axis] + delta },
+    max: { ...box.max, [axis]: box.max[axis] + delta },
+  };
+}
+
+// Integer block coordinates overlapped by [min, max], ignoring faces that
+// merely touch.
+function blockRange(min: number, max: number): [number, number] {
+  return [Math.floor(min + EPSILON), Math.ceil(max - EPSILON) - 1];
+}
+
+/**
+ * Player movement against the block grid, with z pointing up.  Blocks are
+ * full cubes.  `step` is deterministic: the same state, input, time and
+ * terrain always give the same result.
+ */
+export class PlayerPhysics {
+  public readonly halfWidth: number;
+  public readonly halfHeight: number;
+  public readonly gravity: number;
+  public readonly terminalVelocity: number;
+  public readonly jumpHeight: number;
+  public readonly stepHeight: number;
+  public readonly groundFriction: number;
+  public readonly airFriction: number;
+
+  constructor({
+    halfWidth = PLAYER_HALF_WIDTH,
+    halfHeight = PLAYER_HALF_HEIGHT,
+    gravity = PHYSICS_GRAVITY,
+    terminalVelocity = PHYSICS_TERMINAL_VELOCITY,
+    jumpHeight = PHYSICS_JUMP_HEIGHT,
+    stepHeight = PHYSICS_STEP_HEIGHT,
+    groundFriction = PHYSICS_GROUND_FRICTION,
+    airFriction = PHYSICS_AIR_FRICTION,
+  }: PhysicsOptions = {}) {
+    if (!(halfWidth > 0) || !(halfHeight > 0)) {
+      throw new RangeError("Hitbox dimensions must be positive");
+    }
+    this.halfWidth = halfWidth;
+    this.halfHeight = halfHeight;
+    this.gravity = Math.max(0, gravity);
+    this.terminalVelocity = Math.max(0, terminalVelocity);
+    this.jumpHeight = Math.max(0, jumpHeight);
+    this.stepHeight = Math.max(0, stepHeight);
+    this.groundFriction = Math.max(0, groundFriction);
+    this.airFriction = Math.max(0, airFriction);
+  }
+
+  // Upward speed that reaches `jumpHeight`.
+  get jumpVelocity(): number {
+    return Math.sqrt(2 * this.gravity * this.jumpHeight);
+  }
+
+  // The hitbox is centered on the position.
+  boundingBox(position: Vector3): BoundingBox {
+    return {
+      min: {
+        x: position.x - this.halfWidth,
+        y: position.y - this.halfWidth,
+        z: position.z - this.halfHeight,
+      },
+      max: {
+        x: position.x + this.halfWidth,
+        y: position.y + this.halfWidth,
+        z: position.z + this.halfHeight,
+      },
+    };
+  }
+
+  // Whether the hitbox at `position` overlaps a solid block.
+  collides(position: Vector3, isSolid: SolidBlockCheck): boolean {
+    const box = this.boundingBox(position);
+    const [x0, x1] = blockRange(box.min.x, box.max.x);
+    const [y0, y1] = blockRange(box.min.y, box.max.y);
+    const [z0, z1] = blockRange(box.min.z, box.max.z);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let z = z0; z <= z1; z++) {
+          if (isSolid(x, y, z)) {
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  }
+
+  // Advance `state` by `seconds`.  The input is held for the whole time.
+  step(
+    state: PhysicsState,
+    input: MovementInput,
+    seconds: number,
+    isSolid: SolidBlockCheck,
+  ): PhysicsState {
+    let current: PhysicsState = {
+      position: { ...state.position },
+      velocity: { ...state.velocity },
+      onGround: state.onGround,
+    };
+    if (!(seconds > 0)) {
+      return current;
+    }
+    const steps = Math.ceil(seconds / MAX_STEP_SECONDS);
+    for (let i = 0; i < steps; i++) {
+      current = this.substep(current, input, seconds / steps, isSolid);
+    }
+    return current;
+  }
+
+  private substep(
+    state: PhysicsState,
+    input: MovementInput,
+    dt: number,
+    isSolid: SolidBlockCheck,
+  ): PhysicsState {
+    const velocity = { ...state.velocity };
+    const friction = state.onGround ? this.groundFriction : this.airFriction;
+    const blend = 1 - Math.exp(-friction * dt);
+    velocity.x += ((input.move?.x ?? 0) - velocity.x) * blend;
+    velocity.y += ((input.move?.y ?? 0) - velocity.y) * blend;
+    if (input.jump && state.onGround) {
+      velocity.z = this.jumpVelocity;
+    }
+    velocity.z = Math.max(
+      -this.terminalVelocity,
+      velocity.z - this.gravity * dt,
+    );
+
+    const box = this.boundingBox(state.position);
+    const wanted = {
+      x: velocity.x * dt,
+      y: velocity.y * dt,
+      z: velocity.z * dt,
+    };
+    let moved = this.sweep(box, wanted, isSolid);
+    if (
+      state.onGround &&
+      this.stepHeight > 0 &&
+      (moved.x !== wanted.x || moved.y !== wanted.y)
+    ) {
+      const stepped = this.sweepUpStep(box, wanted, isSolid);
+      if (
+        Math.hypot(stepped.x, stepped.y) >
+        Math.hypot(moved.x, moved.y) + EPSILON
+      ) {
+        moved = stepped;
+      }
+    }
+
+    for (const axis of ["x", "y", "z"] as const) {
+      if (moved[axis] !== wanted[axis]) {
+        velocity[axis] = 0;
+      }
+    }
+    return {
+      position: {
+        x: state.position.x + moved.x,
+        y: state.position.y + moved.y,
+        z: state.position.z + moved.z,
+      },
+      velocity,
+      onGround: wanted.z < 0 && moved.z > wanted.z,
+    };
+  }
+
+  // Move vertically first, then along x and y, stopping at each block face.
+  private sweep(
+    box: BoundingBox,
+    offset: Vector3,
+    isSolid: SolidBlockCheck,
+  ): Vector3 {
+    const moved = { x: 0, y: 0, z: 0 };
+    let current = box;
+    for (const axis of ["z", "x", "y"] as const) {
+      moved[axis] = this.clipAxis(current, axis, offset[axis], isSolid);
+      current = translate(current, axis, moved[axis]);
+    }
+    return moved;
+  }
+
+  // The horizontal part of `offset` after rising by up to `stepHeight`, then
+  // settling back down onto whatever is below.
+  private sweepUpStep(
+    box: BoundingBox,
+    offset: Vector3,
+    isSolid: SolidBlockCheck,
+  ): Vector3 {
+    const up = this.clipAxis(box, "z", this.stepHeight, isSolid);
+    let current = translate(box, "z", up);
+    const x = this.clipAxis(current, "x", offset.x, isSolid);
+    current = translate(current, "x", x);
+    const y = this.clipAxis(current, "y", offset.y, isSolid);
+    current = translate(current, "y", y);
+    const down = this.clipAxis(current, "z", -up, isSolid);
+    return { x, y, z: up + down };
+  }
+
+  // How far `box` can move by `delta` along `axis` before a solid block
+  // stops it.  Blocks the box already overlaps are ignored, so a box stuck
+  // inside terrain can still move out.
+  private clipAxis(
+    box: BoundingBox,
+    axis: Axis,
+    delta: number,
+    isSolid: SolidBlockCheck,
+  ): number {
+    if (delta === 0) {
+      return 0;
+    }
+    const [a, b] = CROSS_AXES[axis];
+    const [a0, a1] = blockRange(box.min[a], box.max[a]);
+    const [b0, b1] = blockRange(box.min[b], box.max[b]);
+    const layerIsSolid = (layer: number): boolean => {
+      const coords = { x: 0, y: 0, z: 0 };
+      coords[axis] = layer;
+      for (let i = a0; i <= a1; i++) {
+        coords[a] = i;
+        for (let j = b0; j <= b1; j++) {
+          coords[b] = j;
+          if (isSolid(coords.x, coords.y, coords.z)) {
+            return true;
+          }
+        }
+      }
+      return false;
+    };
+    if (delta > 0) {
+      const face = box.max[axis];
+      const last = Math.ceil(face + delta) - 1;
+      for (let layer = Math.ceil(face - EPSILON); layer <= last; layer++) {
+        if (layerIsSolid(layer)) {
+          return Math.min(delta, layer - face);
+        }
+      }
+      return delta;
+    }
+    const face = box.min[axis];
+    const last = Math.floor(face + delta);
+    for (let layer = Math.floor(face + EPSILON) - 1; layer >= last; layer--) {
+      if (layerIsSolid(layer)) {
+        return Math.max(delta, layer + 1 - face);
+      }
+    }
+    return delta;
+  }
+}
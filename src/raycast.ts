@@ -0,0 +1,106 @@
+import type { Vector3 } from "./connectionTypes.js";
+import type { SolidBlockCheck } from "./physics.js";
+
+// Side of a block, named like Cubyz' neighbour directions (z is up).
+export type BlockFace = "up" | "down" | "posX" | "negX" | "posY" | "negY";
+
+export const BLOCK_FACE_NORMALS: Record<BlockFace, Vector3> = {
+  up: { x: 0, y: 0, z: 1 },
+  down: { x: 0, y: 0, z: -1 },
+  posX: { x: 1, y: 0, z: 0 },
+  negX: { x: -1, y: 0, z: 0 },
+  posY: { x: 0, y: 1, z: 0 },
+  negY: { x: 0, y: -1, z: 0 },
+};
+
+export interface BlockRayHit {
+  // Integer coordinates of the block that was hit.
+  position: Vector3;
+  // The face the ray entered through; placing a block against it puts the
+  // new block at position + BLOCK_FACE_NORMALS[face].
+  face: BlockFace;
+  // Where the ray meets the face, and how far that is from the origin.
+  point: Vector3;
+  distance: number;
+}
+
+type Axis = "x" | "y" | "z";
+
+const ENTRY_FACES: Record<Axis, [BlockFace, BlockFace]> = {
+  // Face entered when moving in the positive and the negative direction.
+  x: ["negX", "posX"],
+  y: ["negY", "posY"],
+  z: ["down", "up"],
+};
+
+/**
+ * Walk the blocks along a ray in order (Amanatides & Woo DDA) and return the
+ * first one `isSolid` accepts within `maxDistance`, or null.  The block
+ * containing the origin is skipped, so a ray cast from inside terrain still
+ * finds the next surface.
+ */
+export function raycastBlocks(
+  origin: Vector3,
+  direction: Vector3,
+  maxDistance: number,
+  isSolid: SolidBlockCheck,
+): BlockRayHit | null {
+  const length = Math.hypot(direction.x, direction.y, direction.z);
+  if (!(length > 0) || !Number.isFinite(length)) {
+    throw new RangeError("Ray direction must be a non-zero finite vector");
+  }
+  const unit = {
+    x: direction.x / length,
+    y: direction.y / length,
+    z: direction.z / length,
+  };
+  const block = {
+    x: Math.floor(origin.x),
+    y: Math.floor(origin.y),
+    z: Math.floor(origin.z),
+  };
+  const step = { x: 0, y: 0, z: 0 };
+  // Ray distance to the next block boundary on each axis, and between two
+  // boundaries on that axis.
+  const next = { x: Infinity, y: Infinity, z: Infinity };
+  const delta = { x: Infinity, y: Infinity, z: Infinity };
+  for (const axis of ["x", "y", "z"] as const) {
+    if (unit[axis] > 0) {
+      step[axis] = 1;
+      delta[axis] = 1 / unit[axis];
+      next[axis] = (block[axis] + 1 - origin[axis]) * delta[axis];
+    } else if (unit[axis] < 0) {
+      step[axis] = -1;
+      delta[axis] = -1 / unit[axis];
+      next[axis] = (origin[axis] - block[axis]) * delta[axis];
+    }
+  }
+
+  while (true) {
+    let axis: Axis = "x";
+    if (next.y < next[axis]) {
+      axis = "y";
+    }
+    if (next.z < next[axis]) {
+      axis = "z";
+    }
+    const distance = next[axis];
+    if (distance > maxDistance) {
+      return null;
+    }
+    block[axis] += step[axis];
+    next[axis] += delta[axis];
+    if (isSolid(block.x, block.y, block.z)) {
+      return {
+        position: { ...block },
+        face: ENTRY_FACES[axis][step[axis] > 0 ? 0 : 1],
+        point: {
+          x: origin.x + unit.x * distance,
+          y: origin.y + unit.y * distance,
+          z: origin.z + unit.z * distance,
+        },
+        distance,
+      };
+    }
+  }
+}
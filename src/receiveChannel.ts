@@ -29,6 +29,14 @@ interface PartialHeader {
   size: number;
 }
 
+export interface ReceiveChannelStats {
+  packetsReceived: number;
+  // Packets that had already been received (e.g. resent after a lost ack).
+  duplicates: number;
+  // Packets that arrived ahead of a gap and had to be buffered.
+  outOfOrder: number;
+}
+
 export interface SequencedChannelPacket {
   channelId: SequencedChannelId;
   start: number;
@@ -46,6 +54,9 @@ export class ReceiveChannel {
   private readonly chunks: Chunk[] = [];
   private bufferedLength = 0;
   private partialHeader: PartialHeader | null = null;
+  private packetsReceived = 0;
+  private duplicates = 0;
+  private outOfOrder = 0;
 
   constructor(channelId: SequencedChannelId, initialSequence: number) {
     this.channelId = channelId;
@@ -59,11 +70,13 @@ export class ReceiveChannel {
       messages: [],
     };
 
-    if (seqLessThan(start, this.expected)) {
+    this.packetsReceived += 1;
+    if (seqLessThan(start, this.expected) || this.pending.has(start)) {
+      this.duplicates += 1;
       return responses;
     }
-    if (this.pending.has(start)) {
-      return responses;
+    if (start !== this.expected) {
+      this.outOfOrder += 1;
     }
     this.pending.set(start, payload);
 
@@ -79,6 +92,14 @@ export class ReceiveChannel {
     return responses;
   }
 
+  getStats(): ReceiveChannelStats {
+    return {
+      packetsReceived: this.packetsReceived,
+      duplicates: this.duplicates,
+      outOfOrder: this.outOfOrder,
+    };
+  }
+
   private flushPendingRaw(): void {
     while (true) {
       const chunk = this.pending.get(this.expected);
@@ -0,0 +1,132 @@
+import type { AssetCategory, AssetTree } from "./assets.js";
+import type { ZonValue } from "./zon.js";
+
+export interface ResolvedBlock {
+  id: string;
+  data: number;
+}
+
+// Palettes are sent either as an array of IDs (index = numeric ID) or as an
+// object mapping IDs to their numeric value.
+export function paletteFromZon(value: ZonValue | undefined): string[] {
+  if (Array.isArray(value)) {
+    return value.map((entry) => (typeof entry === "string" ? entry : ""));
+  }
+  if (value && typeof value === "object") {
+    const ids: string[] = [];
+    for (const [id, index] of Object.entries(value)) {
+      if (typeof index === "number" && Number.isInteger(index) && index >= 0) {
+        ids[index] = id;
+      }
+    }
+    return Array.from(ids, (id) => id ?? "");
+  }
+  return [];
+}
+
+class PaletteRegistry {
+  private readonly ids: string[];
+  private readonly indices = new Map<string, number>();
+  private readonly assets: AssetTree | null;
+  private readonly category: AssetCategory;
+
+  constructor(
+    ids: string[],
+    category: AssetCategory,
+    assets: AssetTree | null = null,
+  ) {
+    this.ids = [...ids];
+    this.category = category;
+    this.assets = assets;
+    this.ids.forEach((id, index) => {
+      if (id.length > 0 && !this.indices.has(id)) {
+        this.indices.set(id, index);
+      }
+    });
+  }
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  getId(index: number): string | undefined {
+    const id = this.ids[index];
+    return id ? id : undefined;
+  }
+
+  getIndex(id: string): number | undefined {
+    return this.indices.get(id);
+  }
+
+  getIds(): string[] {
+    return this.ids.filter((id) => id.length > 0);
+  }
+
+  // Definition from the handshake assets, if they were received.
+  getDefinition(id: string): ZonValue | undefined {
+    return this.assets?.getDefinition(this.category, id);
+  }
+}
+
+/**
+ * Block values are a u16 block type in the low bits and u16 block data in the
+ * high bits; the type indexes the server's block palette.
+ */
+export class BlockRegistry extends PaletteRegistry {
+  private readonly solidTypes = new Map<number, boolean>();
+
+  constructor(ids: string[], assets: AssetTree | null = null) {
+    super(ids, "blocks", assets);
+  }
+
+  // Whether entities collide with the block: the `collide` field of its
+  // definition, or, without one, anything but air.
+  isSolid(block: number): boolean {
+    const type = block & 0xffff;
+    let solid = this.solidTypes.get(type);
+    if (solid === undefined) {
+      const id = this.getId(type);
+      const definition = id === undefined ? undefined : this.getDefinition(id);
+      if (
+        definition !== null &&
+        typeof definition === "object" &&
+        !Array.isArray(definition) &&
+        typeof definition.collide === "boolean"
+      ) {
+        solid = definition.collide;
+      } else {
+        solid = id === undefined ? type !== 0 : id !== "cubyz:air";
+      }
+      this.solidTypes.set(type, solid);
+    }
+    return solid;
+  }
+
+  resolve(block: number): ResolvedBlock | undefined {
+    const id = this.getId(block & 0xffff);
+    if (id === undefined) {
+      return undefined;
+    }
+    return { id, data: block >>> 16 };
+  }
+
+  encode(id: string, data = 0): number | undefined {
+    const type = this.getIndex(id);
+    if (type === undefined) {
+      return undefined;
+    }
+    return (((data & 0xffff) << 16) | type) >>> 0;
+  }
+}
+
+export class ItemRegistry extends PaletteRegistry {
+  constructor(ids: string[], assets: AssetTree | null = null) {
+    super(ids, "items", assets);
+  }
+}
+
+export class BiomeRegistry extends PaletteRegistry {
+  constructor(ids: string[], assets: AssetTree | null = null) {
+    super(ids, "biomes", assets);
+  }
+}
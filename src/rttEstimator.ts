@@ -0,0 +1,92 @@
+import { RESEND_TIMEOUT_MS, RTO_MAX_MS, RTO_MIN_MS } from "./constants.js";
+
+// RFC 6298 gains and clock granularity.
+const ALPHA = 1 / 8;
+const BETA = 1 / 4;
+const K = 4;
+const GRANULARITY_MS = 1;
+
+export interface RttEstimatorOptions {
+  // Retransmission timeout before the first sample (default: RESEND_TIMEOUT_MS).
+  initialRto?: number;
+  minRto?: number;
+  maxRto?: number;
+}
+
+/**
+ * Smoothed round-trip time, RTT variance and retransmission timeout as
+ * described in RFC 6298.  Samples must come from packets that were sent only
+ * once (Karn's algorithm), since the ack of a resent packet cannot be matched
+ * to a particular transmission.
+ */
+export class RttEstimator {
+  public readonly minRto: number;
+  public readonly maxRto: number;
+  private readonly initialRto: number;
+  private srtt: number | null = null;
+  private rttvar: number | null = null;
+  private rtoMs: number;
+  private latestMs: number | null = null;
+  private sampleCount = 0;
+
+  constructor({
+    initialRto = RESEND_TIMEOUT_MS,
+    minRto = RTO_MIN_MS,
+    maxRto = RTO_MAX_MS,
+  }: RttEstimatorOptions = {}) {
+    this.initialRto = initialRto;
+    this.minRto = minRto;
+    this.maxRto = maxRto;
+    this.rtoMs = this.clamp(initialRto);
+  }
+
+  // Smoothed RTT in ms, or null before the first sample.
+  get smoothed(): number | null {
+    return this.srtt;
+  }
+
+  get variance(): number | null {
+    return this.rttvar;
+  }
+
+  get latest(): number | null {
+    return this.latestMs;
+  }
+
+  get rto(): number {
+    return this.rtoMs;
+  }
+
+  get samples(): number {
+    return this.sampleCount;
+  }
+
+  addSample(rttMs: number): void {
+    const sample = Math.max(0, rttMs);
+    this.latestMs = sample;
+    this.sampleCount += 1;
+    if (this.srtt === null || this.rttvar === null) {
+      this.srtt = sample;
+      this.rttvar = sample / 2;
+    } else {
+      this.rttvar =
+        (1 - BETA) * this.rttvar + BETA * Math.abs(this.srtt - sample);
+      this.srtt = (1 - ALPHA) * this.srtt + ALPHA * sample;
+    }
+    this.rtoMs = this.clamp(
+      this.srtt + Math.max(GRANULARITY_MS, K * this.rttvar),
+    );
+  }
+
+  reset(): void {
+    this.srtt = null;
+    this.rttvar = null;
+    this.latestMs = null;
+    this.sampleCount = 0;
+    this.rtoMs = this.clamp(this.initialRto);
+  }
+
+  private clamp(value: number): number {
+    return Math.min(this.maxRto, Math.max(this.minRto, value));
+  }
+}
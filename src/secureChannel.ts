@@ -9,8 +9,7 @@ import {
   generateKeyPairSync,
   randomBytes,
 } from "node:crypto";
-import type dgram from "node:dgram";
-import { writeInt32BE } from "./binary.js";
+import type { SendChannel } from "./sendChannel.js";
 
 // MSB-first varint encoding (Zig BinaryWriter.writeVarInt format)
 // This is the format used for framing messages sent over the TLS channel.
@@ -31,12 +30,13 @@ export function encodeMsbVarInt(value: number): Buffer {
 // ---------------------------------------------------------------------------
 
 const TLS_VERSION_12 = 0x0303; // used in legacy_version fields
-const _TLS_VERSION_13 = 0x0304;
+const TLS_VERSION_13 = 0x0304;
 const CONTENT_HANDSHAKE = 0x16;
 const CONTENT_CCS = 0x14;
 const CONTENT_APP_DATA = 0x17;
 const HS_CLIENT_HELLO = 1;
 const HS_SERVER_HELLO = 2;
+const HS_ENCRYPTED_EXTENSIONS = 8;
 const HS_FINISHED = 20;
 const EXT_SUPPORTED_VERSIONS = 0x002b;
 const EXT_SUPPORTED_GROUPS = 0x000a;
@@ -46,6 +46,10 @@ const GROUP_X25519 = 0x001d;
 const CIPHER_AES256GCM_SHA384 = 0x1302;
 const CIPHER_AES128GCM_SHA256 = 0x1301;
 const CIPHER_CHACHA20_SHA256 = 0x1303;
+// Max plaintext per record (RFC 8446 §5.1)
+const MAX_RECORD_PLAINTEXT = 1 << 14;
+// SPKI DER prefix of a raw 32-byte X25519 public key
+const X25519_SPKI_PREFIX = Buffer.from("302a300506032b656e032100", "hex");
 
 // ---------------------------------------------------------------------------
 // TLS 1.3 key schedule helpers (RFC 8446)
@@ -184,6 +188,22 @@ function decryptRecord(
   }
 }
 
+// Finished verify_data (RFC 8446 §4.4.4)
+function computeFinishedVerifyData(
+  hsTrafficSecret: Buffer,
+  transcript: Buffer,
+): Buffer {
+  const finishedKey = expandLabel(
+    hsTrafficSecret,
+    "finished",
+    Buffer.alloc(0),
+    48,
+    "sha384",
+  );
+  const h = createHash("sha384").update(transcript).digest();
+  return createHmac("sha384", finishedKey).update(h).digest();
+}
+
 // ---------------------------------------------------------------------------
 // TLS record serialisation helpers
 // ---------------------------------------------------------------------------
@@ -387,6 +407,103 @@ function parseServerHello(data: Buffer): ServerHelloInfo | null {
   return { serverRandom, cipherSuite, serverX25519PubKey };
 }
 
+// ---------------------------------------------------------------------------
+// Server side: ClientHello parser and ServerHello builder
+// ---------------------------------------------------------------------------
+
+interface ClientHelloInfo {
+  sessionId: Buffer;
+  cipherSuites: number[];
+  clientX25519PubKey: Buffer | null;
+}
+
+function parseClientHello(data: Buffer): ClientHelloInfo | null {
+  if (data.length < 4 + 2 + 32 + 1 || data[0] !== HS_CLIENT_HELLO) {
+    return null;
+  }
+  let off = 4 + 2 + 32;
+  const sessionIdLen = data[off];
+  off += 1;
+  if (off + sessionIdLen + 2 > data.length) {
+    return null;
+  }
+  const sessionId = data.slice(off, off + sessionIdLen);
+  off += sessionIdLen;
+  const suitesLen = data.readUInt16BE(off);
+  off += 2;
+  if (off + suitesLen + 1 > data.length) {
+    return null;
+  }
+  const cipherSuites: number[] = [];
+  for (let i = 0; i + 1 < suitesLen; i += 2) {
+    cipherSuites.push(data.readUInt16BE(off + i));
+  }
+  off += suitesLen;
+  off += 1 + data[off]; // compression methods
+  if (off + 2 > data.length) {
+    return null;
+  }
+  const extEnd = Math.min(data.length, off + 2 + data.readUInt16BE(off));
+  let eo = off + 2;
+  let clientX25519PubKey: Buffer | null = null;
+  while (eo + 4 <= extEnd) {
+    const et = data.readUInt16BE(eo);
+    const el = data.readUInt16BE(eo + 2);
+    if (et === EXT_KEY_SHARE && eo + 6 <= extEnd) {
+      // client_shares length (2), then group (2) + length (2) + key entries
+      let so = eo + 6;
+      const sharesEnd = Math.min(extEnd, so + data.readUInt16BE(eo + 4));
+      while (so + 4 <= sharesEnd) {
+        const group = data.readUInt16BE(so);
+        const kl = data.readUInt16BE(so + 2);
+        if (group === GROUP_X25519 && kl === 32 && so + 4 + kl <= sharesEnd) {
+          clientX25519PubKey = data.slice(so + 4, so + 4 + kl);
+        }
+        so += 4 + kl;
+      }
+    }
+    eo += 4 + el;
+  }
+  return { sessionId, cipherSuites, clientX25519PubKey };
+}
+
+function buildServerHello(
+  serverRandom: Buffer,
+  sessionId: Buffer,
+  x25519PubKey: Buffer,
+): Buffer {
+  const extSupportedVersions = Buffer.alloc(6);
+  extSupportedVersions.writeUInt16BE(EXT_SUPPORTED_VERSIONS, 0);
+  extSupportedVersions.writeUInt16BE(2, 2);
+  extSupportedVersions.writeUInt16BE(TLS_VERSION_13, 4);
+
+  const extKeyShare = Buffer.alloc(8 + x25519PubKey.length);
+  extKeyShare.writeUInt16BE(EXT_KEY_SHARE, 0);
+  extKeyShare.writeUInt16BE(4 + x25519PubKey.length, 2);
+  extKeyShare.writeUInt16BE(GROUP_X25519, 4);
+  extKeyShare.writeUInt16BE(x25519PubKey.length, 6);
+  x25519PubKey.copy(extKeyShare, 8);
+
+  const extensions = Buffer.concat([extSupportedVersions, extKeyShare]);
+  const extLenBuf = Buffer.alloc(2);
+  extLenBuf.writeUInt16BE(extensions.length, 0);
+
+  const cipherSuite = Buffer.alloc(2);
+  cipherSuite.writeUInt16BE(CIPHER_AES256GCM_SHA384, 0);
+
+  const shBody = Buffer.concat([
+    Buffer.from([0x03, 0x03]), // legacy_version = TLS 1.2
+    serverRandom,
+    Buffer.from([sessionId.length]),
+    sessionId,
+    cipherSuite,
+    Buffer.from([0x00]), // compression method: null
+    extLenBuf,
+    extensions,
+  ]);
+  return makeHandshakeMsg(HS_SERVER_HELLO, shBody);
+}
+
 // ---------------------------------------------------------------------------
 // Framed message decoder (same as before)
 // ---------------------------------------------------------------------------
@@ -482,12 +599,7 @@ class FramedMessageDecoder {
  * definition on the client side.
  */
 export class SecureChannelHandler {
-  private readonly udpSocket: dgram.Socket;
-  private readonly host: string;
-  private readonly port: number;
-  private readonly channelId: number;
-  private readonly mtu: number;
-  private sendSeq: number;
+  private readonly sendChannel: SendChannel;
 
   // TLS state
   private state: "init" | "sentClientHello" | "handshakeComplete" | "error" =
@@ -534,20 +646,8 @@ export class SecureChannelHandler {
   // application layer to verify the server's identity signature).
   verificationDataBuffer: Buffer | undefined = undefined;
 
-  constructor(options: {
-    socket: dgram.Socket;
-    host: string;
-    port: number;
-    channelId: number;
-    mtu: number;
-    initialSendSeq: number;
-  }) {
-    this.udpSocket = options.socket;
-    this.host = options.host;
-    this.port = options.port;
-    this.channelId = options.channelId;
-    this.mtu = options.mtu;
-    this.sendSeq = options.initialSendSeq;
+  constructor(options: { sendChannel: SendChannel }) {
+    this.sendChannel = options.sendChannel;
 
     // Generate ephemeral X25519 key pair for this handshake
     const { privateKey, publicKey } = generateKeyPairSync("x25519");
@@ -646,8 +746,10 @@ export class SecureChannelHandler {
     // Build server's X25519 public key object from raw bytes.
     // The raw 32-byte public key has SPKI encoding:
     //   30 2a 30 05 06 03 2b 65 6e 03 21 00 <32 bytes>
-    const spkiPrefix = Buffer.from("302a300506032b656e032100", "hex");
-    const serverPubKeyDer = Buffer.concat([spkiPrefix, serverPubKeyBytes]);
+    const serverPubKeyDer = Buffer.concat([
+      X25519_SPKI_PREFIX,
+      serverPubKeyBytes,
+    ]);
     const serverPublicKey = createPublicKey({
       key: serverPubKeyDer,
       format: "der",
@@ -846,7 +948,7 @@ export class SecureChannelHandler {
     const transcriptBeforeFinished = Buffer.concat(
       this.transcript.slice(0, this.transcript.length - 1),
     );
-    const expectedVerifyData = this.computeFinishedVerifyData(
+    const expectedVerifyData = computeFinishedVerifyData(
       this._serverHsSecret,
       transcriptBeforeFinished,
     );
@@ -869,21 +971,6 @@ export class SecureChannelHandler {
     this.onSecureConnect?.(verificationData);
   }
 
-  private computeFinishedVerifyData(
-    hsTrafficSecret: Buffer,
-    transcriptHash: Buffer,
-  ): Buffer {
-    const finishedKey = expandLabel(
-      hsTrafficSecret,
-      "finished",
-      Buffer.alloc(0),
-      48,
-      "sha384",
-    );
-    const h = createHash("sha384").update(transcriptHash).digest();
-    return createHmac("sha384", finishedKey).update(h).digest();
-  }
-
   private sendClientFinished(): void {
     if (
       !this._clientHsSecret ||
@@ -893,7 +980,7 @@ export class SecureChannelHandler {
       return;
     }
     const transcriptBeforeClientFinished = Buffer.concat(this.transcript);
-    const verifyData = this.computeFinishedVerifyData(
+    const verifyData = computeFinishedVerifyData(
       this._clientHsSecret,
       transcriptBeforeClientFinished,
     );
@@ -937,21 +1024,289 @@ export class SecureChannelHandler {
     this.sendRawTlsRecord(encrypted);
   }
 
-  // Send a pre-built TLS record (or encrypted wrapper) over UDP.
+  // Hand a pre-built TLS record (or encrypted wrapper) to the SECURE send
+  // channel, which fragments it and retransmits until the server confirms.
+  private sendRawTlsRecord(record: Buffer): void {
+    this.sendChannel.queueRaw(record);
+  }
+
+  private fail(err: Error): void {
+    this.state = "error";
+    this.onError?.(err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SecureChannelServerHandler – server side of the manual TLS 1.3 handshake
+// ---------------------------------------------------------------------------
+
+/**
+ * SecureChannelServerHandler is the counterpart of SecureChannelHandler,
+ * used by the mock server.  It answers the ClientHello with a ServerHello,
+ * EncryptedExtensions and Finished (no certificate, which the client does
+ * not check) and then carries framed messages in both directions.
+ *
+ * verificationData = every byte sent to the client on channel 1 up to and
+ * including the server Finished, i.e. what the client signs.
+ */
+export class SecureChannelServerHandler {
+  private readonly sendChannel: SendChannel;
+
+  private state: "init" | "sentServerFinished" | "handshakeComplete" | "error" =
+    "init";
+  private readonly recordParser = new TlsRecordParser();
+  private readonly decoder = new FramedMessageDecoder();
+  private transcript: Buffer[] = [];
+  private readonly sentBytes: Buffer[] = [];
+
+  private clientHsSecret: Buffer | null = null;
+  private clientHandshakeKey: Buffer | null = null;
+  private clientHandshakeIv: Buffer | null = null;
+  private clientHandshakeSeq = 0n;
+
+  private serverAppKey: Buffer | null = null;
+  private serverAppIv: Buffer | null = null;
+  private serverAppSeq = 0n;
+  private clientAppKey: Buffer | null = null;
+  private clientAppIv: Buffer | null = null;
+  private clientAppSeq = 0n;
+
+  onMessage: ((msg: FramedMessage) => void) | null = null;
+  onSecureConnect: ((verificationData: Buffer) => void) | null = null;
+  onError: ((err: Error) => void) | null = null;
+
+  verificationDataBuffer: Buffer | undefined = undefined;
+
+  constructor(options: { sendChannel: SendChannel }) {
+    this.sendChannel = options.sendChannel;
+    this.decoder.onMessage = (msg: FramedMessage) => {
+      this.onMessage?.(msg);
+    };
+    this.decoder.onError = (err: Error) => {
+      this.onError?.(err);
+    };
+  }
+
+  feedRawBytes(data: Buffer): void {
+    if (this.state === "error") {
+      return;
+    }
+    for (const record of this.recordParser.feed(data)) {
+      if (record.contentType === CONTENT_HANDSHAKE) {
+        this.handleClientHello(record.data);
+      } else if (record.contentType === CONTENT_APP_DATA) {
+        this.handleEncryptedRecord(record);
+      }
+    }
+  }
+
+  private handleClientHello(data: Buffer): void {
+    if (this.state !== "init") {
+      return;
+    }
+    const info = parseClientHello(data);
+    if (!info) {
+      this.fail(new Error("TLS13: failed to parse ClientHello"));
+      return;
+    }
+    if (!info.cipherSuites.includes(CIPHER_AES256GCM_SHA384)) {
+      this.fail(new Error("TLS13: client does not offer AES-256-GCM-SHA384"));
+      return;
+    }
+    if (!info.clientX25519PubKey) {
+      this.fail(new Error("TLS13: no x25519 key share in ClientHello"));
+      return;
+    }
+    this.transcript.push(Buffer.from(data));
+
+    const { privateKey, publicKey } = generateKeyPairSync("x25519");
+    const spki = publicKey.export({ type: "spki", format: "der" }) as Buffer;
+    const serverHello = buildServerHello(
+      randomBytes(32),
+      info.sessionId,
+      Buffer.from(spki.slice(spki.length - 32)),
+    );
+    this.transcript.push(serverHello);
+    this.sendRawTlsRecord(makeTlsRecord(CONTENT_HANDSHAKE, serverHello));
+
+    const sharedSecret = diffieHellman({
+      privateKey,
+      publicKey: createPublicKey({
+        key: Buffer.concat([X25519_SPKI_PREFIX, info.clientX25519PubKey]),
+        format: "der",
+        type: "spki",
+      }),
+    });
+
+    // Key schedule (RFC 8446 §7.1), mirroring SecureChannelHandler.
+    const hashLen = 48;
+    const earlySecret = hkdfExtract(
+      Buffer.alloc(hashLen, 0),
+      Buffer.alloc(hashLen, 0),
+    );
+    const handshakeSecret = hkdfExtract(
+      deriveSecret(earlySecret, "derived", Buffer.alloc(0)),
+      sharedSecret,
+    );
+    const helloTranscript = Buffer.concat(this.transcript);
+    const clientHsSecret = deriveSecret(
+      handshakeSecret,
+      "c hs traffic",
+      helloTranscript,
+    );
+    const serverHsSecret = deriveSecret(
+      handshakeSecret,
+      "s hs traffic",
+      helloTranscript,
+    );
+    const clientHsKeys = deriveTrafficKeys(clientHsSecret);
+    const serverHsKeys = deriveTrafficKeys(serverHsSecret);
+    this.clientHsSecret = clientHsSecret;
+    this.clientHandshakeKey = clientHsKeys.key;
+    this.clientHandshakeIv = clientHsKeys.iv;
+
+    // EncryptedExtensions (empty) + Finished in a single encrypted record.
+    const encryptedExtensions = makeHandshakeMsg(
+      HS_ENCRYPTED_EXTENSIONS,
+      Buffer.from([0x00, 0x00]),
+    );
+    this.transcript.push(encryptedExtensions);
+    const finished = makeHandshakeMsg(
+      HS_FINISHED,
+      computeFinishedVerifyData(serverHsSecret, Buffer.concat(this.transcript)),
+    );
+    this.transcript.push(finished);
+    this.sendRawTlsRecord(
+      encryptRecord(
+        Buffer.concat([encryptedExtensions, finished]),
+        CONTENT_HANDSHAKE,
+        serverHsKeys.key,
+        serverHsKeys.iv,
+        0n,
+      ),
+    );
+
+    const masterSecret = hkdfExtract(
+      deriveSecret(handshakeSecret, "derived", Buffer.alloc(0)),
+      Buffer.alloc(hashLen, 0),
+    );
+    const serverFinishedTranscript = Buffer.concat(this.transcript);
+    const clientAppKeys = deriveTrafficKeys(
+      deriveSecret(masterSecret, "c ap traffic", serverFinishedTranscript),
+    );
+    const serverAppKeys = deriveTrafficKeys(
+      deriveSecret(masterSecret, "s ap traffic", serverFinishedTranscript),
+    );
+    this.clientAppKey = clientAppKeys.key;
+    this.clientAppIv = clientAppKeys.iv;
+    this.serverAppKey = serverAppKeys.key;
+    this.serverAppIv = serverAppKeys.iv;
+
+    this.verificationDataBuffer = Buffer.concat(this.sentBytes);
+    this.state = "sentServerFinished";
+  }
+
+  private handleEncryptedRecord(record: TlsRecord): void {
+    const header = Buffer.alloc(5);
+    header[0] = record.contentType;
+    header.writeUInt16BE(TLS_VERSION_12, 1);
+    header.writeUInt16BE(record.data.length, 3);
+    const fullRecord = Buffer.concat([header, record.data]);
+
+    if (
+      this.state === "sentServerFinished" &&
+      this.clientHandshakeKey &&
+      this.clientHandshakeIv
+    ) {
+      const dec = decryptRecord(
+        fullRecord,
+        this.clientHandshakeKey,
+        this.clientHandshakeIv,
+        this.clientHandshakeSeq,
+      );
+      if (!dec) {
+        this.fail(new Error("TLS13: failed to decrypt client Finished"));
+        return;
+      }
+      this.clientHandshakeSeq++;
+      this.processClientFinished(dec.plaintext);
+      return;
+    }
+
+    if (
+      this.state === "handshakeComplete" &&
+      this.clientAppKey &&
+      this.clientAppIv
+    ) {
+      const dec = decryptRecord(
+        fullRecord,
+        this.clientAppKey,
+        this.clientAppIv,
+        this.clientAppSeq,
+      );
+      if (!dec) {
+        return;
+      }
+      this.clientAppSeq++;
+      if (dec.innerContentType === CONTENT_APP_DATA) {
+        this.decoder.feed(dec.plaintext);
+      }
+    }
+  }
+
+  private processClientFinished(data: Buffer): void {
+    if (data.length < 4 || data[0] !== HS_FINISHED || !this.clientHsSecret) {
+      this.fail(new Error("TLS13: expected client Finished"));
+      return;
+    }
+    const expected = computeFinishedVerifyData(
+      this.clientHsSecret,
+      Buffer.concat(this.transcript),
+    );
+    if (!expected.equals(data.slice(4))) {
+      this.fail(new Error("TLS13: client Finished verify_data mismatch"));
+      return;
+    }
+    this.state = "handshakeComplete";
+    this.onSecureConnect?.(this.verificationDataBuffer ?? Buffer.alloc(0));
+  }
+
+  // Frame format: [protocolId u8][MSB-varint length][payload].  Large frames
+  // are spread over several records.
+  sendMessage(protocolId: number, payload: Buffer): void {
+    if (
+      this.state !== "handshakeComplete" ||
+      !this.serverAppKey ||
+      !this.serverAppIv
+    ) {
+      this.onError?.(
+        new Error("SecureChannel: sendMessage before handshake complete"),
+      );
+      return;
+    }
+    const frame = Buffer.concat([
+      Buffer.from([protocolId]),
+      encodeMsbVarInt(payload.length),
+      payload,
+    ]);
+    for (let off = 0; off < frame.length; off += MAX_RECORD_PLAINTEXT) {
+      const encrypted = encryptRecord(
+        frame.slice(off, off + MAX_RECORD_PLAINTEXT),
+        CONTENT_APP_DATA,
+        this.serverAppKey,
+        this.serverAppIv,
+        this.serverAppSeq,
+      );
+      this.serverAppSeq++;
+      this.sendRawTlsRecord(encrypted);
+    }
+  }
+
   private sendRawTlsRecord(record: Buffer): void {
-    const maxPayload = this.mtu - 5;
-    let offset = 0;
-    while (offset < record.length) {
-      const end = Math.min(offset + maxPayload, record.length);
-      const slice = record.slice(offset, end);
-      const packet = Buffer.alloc(5 + slice.length);
-      packet[0] = this.channelId;
-      writeInt32BE(packet, 1, this.sendSeq);
-      slice.copy(packet, 5);
-      this.udpSocket.send(packet, this.port, this.host);
-      this.sendSeq = (this.sendSeq + slice.length) | 0;
-      offset = end;
+    if (this.state === "init") {
+      this.sentBytes.push(record);
     }
+    this.sendChannel.queueRaw(record);
   }
 
   private fail(err: Error): void {
@@ -1,11 +1,15 @@
 import { Buffer } from "node:buffer";
-import { addSeq, encodeVarInt, toInt32 } from "./binary.js";
+import { addSeq, encodeVarInt, seqLessThan, toInt32 } from "./binary.js";
+import type { CongestionController } from "./congestion.js";
 import {
   MTU,
   RESEND_TIMEOUT_MS,
   type SequencedChannelId,
 } from "./constants.js";
 
+// Channel ID and sequence number take the first five bytes of a packet.
+const MAX_PACKET_PAYLOAD = MTU - 5;
+
 function concatBuffers(chunks: Buffer[]): Buffer {
   if (chunks.length === 1) {
     return chunks[0];
@@ -13,6 +17,15 @@ function concatBuffers(chunks: Buffer[]): Buffer {
   return Buffer.concat(chunks);
 }
 
+// Called once with true when the message is acknowledged, or with false when
+// the channel is abandoned before that.
+export type DeliveryCallback = (delivered: boolean) => void;
+
+interface PendingMessage {
+  data: Buffer;
+  onDelivery?: DeliveryCallback;
+}
+
 interface InFlightEntry {
   payload: Buffer;
   timestamp: number;
@@ -20,6 +33,21 @@ interface InFlightEntry {
   retries: number;
 }
 
+// A message whose last byte has been packed; it is delivered once everything
+// before `end` is acknowledged.
+interface PendingDelivery {
+  end: number;
+  onDelivery: DeliveryCallback;
+}
+
+export interface SendChannelStats {
+  packetsSent: number;
+  resends: number;
+  packetsAcked: number;
+  inFlight: number;
+  queued: number;
+}
+
 export interface QueuedPacket {
   start: number;
   payload: Buffer;
@@ -31,27 +59,53 @@ export class SendChannel {
   public readonly initialSequence: number;
   private nextIndex: number;
   private fullyConfirmed: number;
-  private readonly pendingMessages: Buffer[] = [];
+  private readonly pendingMessages: PendingMessage[] = [];
+  // Bytes of the first pending message that are already in a packet.
+  private pendingOffset = 0;
+  private queuedBytes = 0;
+  private readonly deliveries: PendingDelivery[] = [];
   private readonly inFlight = new Map<number, InFlightEntry>();
   private readonly acked = new Map<number, number>();
-  // When set, sendRawBytes() will be called instead of the normal send path.
-  // Used when the channel is operating in TLS mode.
-  public rawSendCallback:
-    | ((data: Buffer, port: number, host: string) => void)
-    | null = null;
+  private packetsSent = 0;
+  private resends = 0;
+  private packetsAcked = 0;
+
+  // Without a congestion controller, packets are resent after a fixed
+  // RESEND_TIMEOUT_MS and the bytes in flight are not limited.
+  private readonly congestion: CongestionController | null;
 
-  constructor(channelId: SequencedChannelId, initialSequence: number) {
+  constructor(
+    channelId: SequencedChannelId,
+    initialSequence: number,
+    congestion: CongestionController | null = null,
+  ) {
     this.channelId = channelId;
+    this.congestion = congestion;
     this.initialSequence = toInt32(initialSequence);
     this.nextIndex = this.initialSequence;
     this.fullyConfirmed = this.initialSequence;
   }
 
-  queue(protocolId: number, payload: Buffer): void {
+  queue(
+    protocolId: number,
+    payload: Buffer,
+    onDelivery?: DeliveryCallback,
+  ): void {
     const header = Buffer.from([protocolId]);
     const size = encodeVarInt(payload.length);
-    const message = concatBuffers([header, size, payload]);
-    this.pendingMessages.push(message);
+    const data = concatBuffers([header, size, payload]);
+    this.pendingMessages.push({ data, onDelivery });
+    this.queuedBytes += data.length;
+  }
+
+  // Queue unframed bytes (used by the SECURE channel, which carries a TLS
+  // record stream).
+  queueRaw(data: Buffer): void {
+    if (data.length === 0) {
+      return;
+    }
+    this.pendingMessages.push({ data });
+    this.queuedBytes += data.length;
   }
 
   hasWork(): boolean {
@@ -59,10 +113,13 @@ export class SendChannel {
   }
 
   getPacket(now: number): QueuedPacket | null {
+    const resendTimeout = this.congestion?.resendTimeout ?? RESEND_TIMEOUT_MS;
     for (const [start, entry] of this.inFlight) {
-      if (now - entry.timestamp >= RESEND_TIMEOUT_MS) {
+      if (now - entry.timestamp >= resendTimeout) {
         entry.timestamp = now;
         entry.retries += 1;
+        this.resends += 1;
+        this.congestion?.onTimeout(now);
         return {
           start,
           payload: entry.payload,
@@ -71,44 +128,114 @@ export class SendChannel {
       }
     }
 
-    if (this.pendingMessages.length === 0) {
+    const len = Math.min(MAX_PACKET_PAYLOAD, this.queuedBytes);
+    if (len === 0 || this.congestion?.canSend(len) === false) {
       return null;
     }
-    const message = this.pendingMessages.shift();
-    if (!message) {
-      return null;
-    }
-    if (message.length > MTU - 5 && this.rawSendCallback === null) {
-      throw new Error("Message exceeds MTU allowance for a single packet");
-    }
     const start = this.nextIndex;
-    const entry: InFlightEntry = {
-      payload: message,
-      timestamp: now,
-      len: message.length,
-      retries: 0,
-    };
-    this.inFlight.set(start, entry);
-    this.nextIndex = addSeq(this.nextIndex, entry.len);
+    const payload = this.packPayload(start, len);
+    this.inFlight.set(start, { payload, timestamp: now, len, retries: 0 });
+    this.packetsSent += 1;
+    this.congestion?.onSent(len);
+    this.nextIndex = addSeq(this.nextIndex, len);
     return {
       start,
-      payload: message,
+      payload,
       resend: false,
     };
   }
 
-  handleAck(start: number): void {
+  // `holdTime` is how long the receiver held the packet before confirming
+  // it, which is not part of the round trip.
+  handleAck(start: number, holdTime = 0, now = Date.now()): void {
     const entry = this.inFlight.get(start);
     if (entry) {
       this.inFlight.delete(start);
       this.acked.set(start, entry.len);
-      this.advanceAcks();
-      return;
-    }
-    if (!this.acked.has(start)) {
+      this.packetsAcked += 1;
+      // Karn's algorithm: an ack of a resent packet is ambiguous.
+      this.congestion?.onAcked(
+        entry.len,
+        entry.retries === 0 ? now - entry.timestamp - holdTime : undefined,
+      );
+    } else if (!this.acked.has(start)) {
       this.acked.set(start, 0);
     }
     this.advanceAcks();
+    this.settleDeliveries();
+  }
+
+  getStats(): SendChannelStats {
+    return {
+      packetsSent: this.packetsSent,
+      resends: this.resends,
+      packetsAcked: this.packetsAcked,
+      inFlight: this.inFlight.size,
+      queued: this.pendingMessages.length,
+    };
+  }
+
+  // Drop everything still queued or unacknowledged, e.g. when the session
+  // ends, and tell the senders their messages were not delivered.
+  abandon(): void {
+    const callbacks = [
+      ...this.deliveries.map((delivery) => delivery.onDelivery),
+      ...this.pendingMessages.map((message) => message.onDelivery),
+    ];
+    this.deliveries.length = 0;
+    this.pendingMessages.length = 0;
+    this.pendingOffset = 0;
+    this.queuedBytes = 0;
+    for (const entry of this.inFlight.values()) {
+      this.congestion?.onAbandoned(entry.len);
+    }
+    this.inFlight.clear();
+    for (const callback of callbacks) {
+      callback?.(false);
+    }
+  }
+
+  // Take the next `len` queued bytes for the packet at `start`.  Small
+  // messages share a packet and large ones continue in the following packets;
+  // the receiver reassembles them from the byte stream.
+  private packPayload(start: number, len: number): Buffer {
+    const pieces: Buffer[] = [];
+    let packed = 0;
+    while (packed < len) {
+      const message = this.pendingMessages[0];
+      const piece = message.data.subarray(
+        this.pendingOffset,
+        this.pendingOffset + len - packed,
+      );
+      pieces.push(piece);
+      packed += piece.length;
+      this.pendingOffset += piece.length;
+      if (this.pendingOffset === message.data.length) {
+        this.pendingMessages.shift();
+        this.pendingOffset = 0;
+        if (message.onDelivery) {
+          this.deliveries.push({
+            end: addSeq(start, packed),
+            onDelivery: message.onDelivery,
+          });
+        }
+      }
+    }
+    this.queuedBytes -= len;
+    return concatBuffers(pieces);
+  }
+
+  private settleDeliveries(): void {
+    const delivered: DeliveryCallback[] = [];
+    while (
+      this.deliveries.length > 0 &&
+      !seqLessThan(this.fullyConfirmed, this.deliveries[0].end)
+    ) {
+      delivered.push((this.deliveries.shift() as PendingDelivery).onDelivery);
+    }
+    for (const onDelivery of delivered) {
+      onDelivery(true);
+    }
   }
 
   private advanceAcks(): void {
@@ -0,0 +1,189 @@
+import { GAMEMODE, type Gamemode, type Vector3 } from "./connectionTypes.js";
+import { paletteFromZon } from "./registry.js";
+import type { ZonValue } from "./zon.js";
+import { type ZonIssue, type ZonPath, type ZonSchema, z } from "./zonSchema.js";
+
+export interface ServerPlayerData {
+  position: Vector3 | null;
+  velocity: Vector3 | null;
+  rotation: Vector3 | null;
+  gamemode: Gamemode | null;
+  inventory: ZonValue | null;
+  extra: Record<string, ZonValue>;
+}
+
+export interface ServerData {
+  playerId: number | null;
+  spawn: Vector3 | null;
+  player: ServerPlayerData | null;
+  gamemode: Gamemode | null;
+  worldName: string | null;
+  seed: number | bigint | null;
+  // Palettes keyed by the field name without its "Palette" suffix, e.g.
+  // "block", "item", "biome", "tool".
+  palettes: Record<string, string[]>;
+  // Fields this client does not know about, kept verbatim.
+  extra: Record<string, ZonValue>;
+  // Known fields that had the wrong shape; they decode to null.
+  issues: ZonIssue[];
+}
+
+type ZonObject = { [key: string]: ZonValue };
+
+type FieldDecoder<T> = (
+  value: ZonValue,
+  target: T,
+  path: ZonPath,
+  issues: ZonIssue[],
+) => void;
+
+const GAMEMODE_SCHEMA = z.union([
+  z.literal(GAMEMODE.SURVIVAL),
+  z.literal(GAMEMODE.CREATIVE),
+  z.literal("survival").transform((): Gamemode => GAMEMODE.SURVIVAL),
+  z.literal("creative").transform((): Gamemode => GAMEMODE.CREATIVE),
+]);
+
+// Palettes are either a tuple of IDs or a struct mapping IDs to indices.
+const PALETTE_SCHEMA = z
+  .union([z.array(z.string()), z.record(z.int())])
+  .transform((value) => paletteFromZon(value));
+
+const PLAYER_SCHEMA = z.record(z.any());
+
+// Decode a field through `schema`; values that do not match are reported
+// and stored as null.
+function field<T, V>(
+  schema: ZonSchema<V>,
+  assign: (target: T, value: V | null) => void,
+): FieldDecoder<T> {
+  return (value, target, path, issues) => {
+    assign(target, schema.validate(value, path, issues)?.value ?? null);
+  };
+}
+
+// Decode every known field through its decoder and keep the rest in `extra`.
+function decodeFields<T extends { extra: Record<string, ZonValue> }>(
+  source: ZonObject,
+  decoders: Record<string, FieldDecoder<T>>,
+  target: T,
+  path: ZonPath,
+  issues: ZonIssue[],
+  fallback?: (key: string, value: ZonValue, target: T) => boolean,
+): T {
+  for (const [key, value] of Object.entries(source)) {
+    const decoder = decoders[key];
+    if (decoder) {
+      decoder(value, target, [...path, key], issues);
+    } else if (!fallback?.(key, value, target)) {
+      target.extra[key] = value;
+    }
+  }
+  return target;
+}
+
+const PLAYER_FIELDS: Record<string, FieldDecoder<ServerPlayerData>> = {
+  position: field(z.vec3(), (player, value) => {
+    player.position = value;
+  }),
+  velocity: field(z.vec3(), (player, value) => {
+    player.velocity = value;
+  }),
+  rotation: field(z.vec3(), (player, value) => {
+    player.rotation = value;
+  }),
+  gamemode: field(GAMEMODE_SCHEMA, (player, value) => {
+    player.gamemode = value;
+  }),
+  inventory: field(z.any(), (player, value) => {
+    player.inventory = value;
+  }),
+  playerInventory: field(z.any(), (player, value) => {
+    player.inventory = value;
+  }),
+};
+
+const SERVER_DATA_FIELDS: Record<string, FieldDecoder<ServerData>> = {
+  player_id: field(z.int(), (data, value) => {
+    data.playerId = value;
+  }),
+  spawn: field(z.vec3(), (data, value) => {
+    data.spawn = value;
+  }),
+  player: (value, data, path, issues) => {
+    const player = PLAYER_SCHEMA.validate(value, path, issues)?.value;
+    data.player = player ? parseServerPlayerData(player, path, issues) : null;
+  },
+  gamemode: field(GAMEMODE_SCHEMA, (data, value) => {
+    data.gamemode = value;
+  }),
+  worldName: field(z.string(), (data, value) => {
+    data.worldName = value;
+  }),
+  world_name: field(z.string(), (data, value) => {
+    data.worldName = value;
+  }),
+  seed: field(z.intOrBigint(), (data, value) => {
+    data.seed = value;
+  }),
+};
+
+function parseServerPlayerData(
+  source: ZonObject,
+  path: ZonPath,
+  issues: ZonIssue[],
+): ServerPlayerData {
+  return decodeFields(
+    source,
+    PLAYER_FIELDS,
+    {
+      position: null,
+      velocity: null,
+      rotation: null,
+      gamemode: null,
+      inventory: null,
+      extra: {},
+    },
+    path,
+    issues,
+  );
+}
+
+// Build the typed view of the SERVER_DATA handshake payload.  Values of the
+// wrong shape decode to null and are listed in `issues` rather than throwing.
+export function parseServerData(value: ZonValue): ServerData {
+  const data: ServerData = {
+    playerId: null,
+    spawn: null,
+    player: null,
+    gamemode: null,
+    worldName: null,
+    seed: null,
+    palettes: {},
+    extra: {},
+    issues: [],
+  };
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    data.issues.push({ path: [], message: "expected struct" });
+    return data;
+  }
+  decodeFields(
+    value,
+    SERVER_DATA_FIELDS,
+    data,
+    [],
+    data.issues,
+    (key, fieldValue, target) => {
+      if (!key.endsWith("Palette")) {
+        return false;
+      }
+      target.palettes[key.slice(0, -"Palette".length)] =
+        PALETTE_SCHEMA.validate(fieldValue, [key], target.issues)?.value ?? [];
+      return true;
+    },
+  );
+  if (data.gamemode === null && data.player?.gamemode != null) {
+    data.gamemode = data.player.gamemode;
+  }
+  return data;
+}
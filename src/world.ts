@@ -0,0 +1,274 @@
+import type { Buffer } from "node:buffer";
+import { chunkBlockIndex, chunkKey, chunkPositionAt } from "./chunkParser.js";
+import type {
+  BlockUpdate,
+  Chunk,
+  ChunkPosition,
+  Vector3,
+} from "./connectionTypes.js";
+import { CHUNK_SIZE } from "./constants.js";
+
+export interface BlockChange {
+  position: Vector3;
+  previous: number | null;
+  block: number;
+  blockEntityData: Buffer | null;
+}
+
+export interface BlockEntry {
+  position: Vector3;
+  block: number;
+}
+
+// Inclusive block-coordinate bounds.
+export interface BlockRegion {
+  min: Vector3;
+  max: Vector3;
+}
+
+export type BlockChangeListener = (changes: BlockChange[]) => void;
+
+interface RegionListener {
+  region: BlockRegion;
+  listener: BlockChangeListener;
+}
+
+function blockKey(x: number, y: number, z: number): string {
+  return `${x},${y},${z}`;
+}
+
+function normalizeRegion(region: BlockRegion): BlockRegion {
+  return {
+    min: {
+      x: Math.floor(Math.min(region.min.x, region.max.x)),
+      y: Math.floor(Math.min(region.min.y, region.max.y)),
+      z: Math.floor(Math.min(region.min.z, region.max.z)),
+    },
+    max: {
+      x: Math.floor(Math.max(region.min.x, region.max.x)),
+      y: Math.floor(Math.max(region.min.y, region.max.y)),
+      z: Math.floor(Math.max(region.min.z, region.max.z)),
+    },
+  };
+}
+
+function regionContains(region: BlockRegion, position: Vector3): boolean {
+  return (
+    position.x >= region.min.x &&
+    position.x <= region.max.x &&
+    position.y >= region.min.y &&
+    position.y <= region.max.y &&
+    position.z >= region.min.z &&
+    position.z <= region.max.z
+  );
+}
+
+/**
+ * World keeps the client's view of the terrain: full-resolution chunks
+ * received from the server plus every block update applied on top of them.
+ *
+ * Block updates for chunks that are not loaded are kept as sparse overrides
+ * so they can still be looked up; a later chunk transmission supersedes them.
+ * Chunk transmissions carry no block entity data, so block entity data from
+ * block updates is kept when a chunk arrives.
+ */
+export class World {
+  private readonly chunks = new Map<string, Chunk>();
+  // Overrides and block entity data grouped by chunk key, then by block key.
+  private readonly overrides = new Map<string, Map<string, number>>();
+  private readonly blockEntities = new Map<string, Map<string, Buffer>>();
+  private readonly listeners = new Set<RegionListener>();
+
+  getChunks(): Chunk[] {
+    return [...this.chunks.values()];
+  }
+
+  getChunk(position: ChunkPosition): Chunk | undefined {
+    return this.chunks.get(chunkKey(position));
+  }
+
+  hasChunkAt(x: number, y: number, z: number): boolean {
+    return this.chunks.has(chunkKey(chunkPositionAt({ x, y, z })));
+  }
+
+  // Store a chunk and notify listeners whose region overlaps it.  Only
+  // full-resolution (voxelSize 1) chunks are kept.
+  setChunk(chunk: Chunk): void {
+    if (chunk.position.voxelSize !== 1) {
+      return;
+    }
+    const { wx, wy, wz } = chunk.position;
+    const key = chunkKey(chunk.position);
+    this.chunks.set(key, chunk);
+    // The chunk transmission is newer than any block update stored for it.
+    this.overrides.delete(key);
+
+    if (this.listeners.size === 0) {
+      return;
+    }
+    const chunkRegion: BlockRegion = {
+      min: { x: wx, y: wy, z: wz },
+      max: {
+        x: wx + CHUNK_SIZE - 1,
+        y: wy + CHUNK_SIZE - 1,
+        z: wz + CHUNK_SIZE - 1,
+      },
+    };
+    for (const entry of [...this.listeners]) {
+      const min = {
+        x: Math.max(entry.region.min.x, chunkRegion.min.x),
+        y: Math.max(entry.region.min.y, chunkRegion.min.y),
+        z: Math.max(entry.region.min.z, chunkRegion.min.z),
+      };
+      const max = {
+        x: Math.min(entry.region.max.x, chunkRegion.max.x),
+        y: Math.min(entry.region.max.y, chunkRegion.max.y),
+        z: Math.min(entry.region.max.z, chunkRegion.max.z),
+      };
+      if (min.x > max.x || min.y > max.y || min.z > max.z) {
+        continue;
+      }
+      const changes: BlockChange[] = this.getBlocksInBox(min, max).map(
+        ({ position, block }) => ({
+          position,
+          previous: null,
+          block,
+          blockEntityData: null,
+        }),
+      );
+      entry.listener(changes);
+    }
+  }
+
+  // Forget a chunk together with the block entity data inside it.
+  removeChunk(position: ChunkPosition): boolean {
+    const key = chunkKey(position);
+    this.blockEntities.delete(key);
+    return this.chunks.delete(key);
+  }
+
+  // Apply server block updates and return the resulting changes.
+  applyBlockUpdates(updates: BlockUpdate[]): BlockChange[] {
+    const changes: BlockChange[] = [];
+    for (const update of updates) {
+      const { x, y, z } = update.position;
+      const previous = this.getBlock(x, y, z);
+      const key = blockKey(x, y, z);
+      const positionKey = chunkKey(chunkPositionAt(update.position));
+      const chunk = this.chunks.get(positionKey);
+      if (chunk) {
+        chunk.blocks[
+          chunkBlockIndex(
+            x - chunk.position.wx,
+            y - chunk.position.wy,
+            z - chunk.position.wz,
+          )
+        ] = update.block;
+      } else {
+        let overrides = this.overrides.get(positionKey);
+        if (!overrides) {
+          overrides = new Map();
+          this.overrides.set(positionKey, overrides);
+        }
+        overrides.set(key, update.block);
+      }
+      const blockEntityData =
+        update.blockEntityData.length > 0 ? update.blockEntityData : null;
+      let blockEntities = this.blockEntities.get(positionKey);
+      if (blockEntityData) {
+        if (!blockEntities) {
+          blockEntities = new Map();
+          this.blockEntities.set(positionKey, blockEntities);
+        }
+        blockEntities.set(key, blockEntityData);
+      } else if (blockEntities?.delete(key) && blockEntities.size === 0) {
+        this.blockEntities.delete(positionKey);
+      }
+      changes.push({
+        position: { x, y, z },
+        previous,
+        block: update.block,
+        blockEntityData,
+      });
+    }
+    this.notify(changes);
+    return changes;
+  }
+
+  // Returns the raw block value, or null if the position is not loaded.
+  getBlock(x: number, y: number, z: number): number | null {
+    const bx = Math.floor(x);
+    const by = Math.floor(y);
+    const bz = Math.floor(z);
+    const key = chunkKey(chunkPositionAt({ x: bx, y: by, z: bz }));
+    const chunk = this.chunks.get(key);
+    if (chunk) {
+      return chunk.blocks[
+        chunkBlockIndex(
+          bx - chunk.position.wx,
+          by - chunk.position.wy,
+          bz - chunk.position.wz,
+        )
+      ];
+    }
+    return this.overrides.get(key)?.get(blockKey(bx, by, bz)) ?? null;
+  }
+
+  getBlockEntityData(x: number, y: number, z: number): Buffer | null {
+    const bx = Math.floor(x);
+    const by = Math.floor(y);
+    const bz = Math.floor(z);
+    return (
+      this.blockEntities
+        .get(chunkKey(chunkPositionAt({ x: bx, y: by, z: bz })))
+        ?.get(blockKey(bx, by, bz)) ?? null
+    );
+  }
+
+  // All loaded blocks within the inclusive box between `min` and `max`.
+  getBlocksInBox(min: Vector3, max: Vector3): BlockEntry[] {
+    const region = normalizeRegion({ min, max });
+    const entries: BlockEntry[] = [];
+    for (let x = region.min.x; x <= region.max.x; x++) {
+      for (let y = region.min.y; y <= region.max.y; y++) {
+        for (let z = region.min.z; z <= region.max.z; z++) {
+          const block = this.getBlock(x, y, z);
+          if (block !== null) {
+            entries.push({ position: { x, y, z }, block });
+          }
+        }
+      }
+    }
+    return entries;
+  }
+
+  // Register a listener for changes inside `region`.  Returns an unsubscribe
+  // function.
+  onChange(region: BlockRegion, listener: BlockChangeListener): () => void {
+    const entry: RegionListener = { region: normalizeRegion(region), listener };
+    this.listeners.add(entry);
+    return () => {
+      this.listeners.delete(entry);
+    };
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.overrides.clear();
+    this.blockEntities.clear();
+  }
+
+  private notify(changes: BlockChange[]): void {
+    if (changes.length === 0 || this.listeners.size === 0) {
+      return;
+    }
+    for (const entry of [...this.listeners]) {
+      const relevant = changes.filter((change) =>
+        regionContains(entry.region, change.position),
+      );
+      if (relevant.length > 0) {
+        entry.listener(relevant);
+      }
+    }
+  }
+}
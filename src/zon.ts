@@ -1,13 +1,47 @@
+import { Buffer } from "node:buffer";
+
 const WHITESPACE = /[\s]/;
 
 export type ZonValue =
   | string
   | number
+  | bigint
   | boolean
   | null
   | ZonValue[]
   | { [key: string]: ZonValue };
 
+export class ZonParseError extends Error {
+  public readonly offset: number;
+  public readonly line: number;
+  public readonly column: number;
+
+  constructor(message: string, text: string, offset: number) {
+    const { line, column } = lineAndColumn(text, offset);
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = "ZonParseError";
+    this.offset = offset;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+function lineAndColumn(
+  text: string,
+  offset: number,
+): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  const end = Math.min(offset, text.length);
+  for (let i = 0; i < end; i++) {
+    if (text[i] === "\n") {
+      line += 1;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: end - lineStart + 1 };
+}
+
 function isIdentifierStart(char: string): boolean {
   return /[A-Za-z_]/.test(char);
 }
@@ -20,6 +54,13 @@ function isDigit(char: string): boolean {
   return char >= "0" && char <= "9";
 }
 
+const DIGITS_BY_RADIX: Record<number, RegExp> = {
+  2: /[01]/,
+  8: /[0-7]/,
+  10: /[0-9]/,
+  16: /[0-9A-Fa-f]/,
+};
+
 class ZonParser {
   private readonly text: string;
   private readonly length: number;
@@ -34,7 +75,7 @@ class ZonParser {
   parseValue(): ZonValue {
     this.skipWhitespace();
     if (this.pos >= this.length) {
-      throw new Error("Unexpected end of input");
+      throw this.error("Unexpected end of input");
     }
     const char = this.text[this.pos];
     if (char === "{") {
@@ -43,28 +84,49 @@ class ZonParser {
     if (char === '"') {
       return this.parseString();
     }
-    if (this.text.startsWith("null", this.pos)) {
-      this.pos += 4;
+    if (char === "\\" && this.text[this.pos + 1] === "\\") {
+      return this.parseMultilineString();
+    }
+    if (char === "'") {
+      return this.parseCharLiteral();
+    }
+    if (this.matchKeyword("null")) {
       return null;
     }
-    if (this.text.startsWith("true", this.pos)) {
-      this.pos += 4;
+    if (this.matchKeyword("true")) {
       return true;
     }
-    if (this.text.startsWith("false", this.pos)) {
-      this.pos += 5;
+    if (this.matchKeyword("false")) {
       return false;
     }
     if (char === ".") {
       const next = this.text[this.pos + 1];
+      if (next === "{") {
+        // Anonymous struct or tuple literal: .{ ... }
+        this.pos += 1;
+        return this.parseCompound();
+      }
       if (next && isDigit(next)) {
         return this.parseNumber();
       }
+      // Enum literal: .name or .@"name"
       return this.parseIdentifier();
     }
     return this.parseNumber();
   }
 
+  private matchKeyword(keyword: string): boolean {
+    if (!this.text.startsWith(keyword, this.pos)) {
+      return false;
+    }
+    const after = this.text[this.pos + keyword.length];
+    if (after !== undefined && isIdentifierChar(after)) {
+      return false;
+    }
+    this.pos += keyword.length;
+    return true;
+  }
+
   private parseCompound(): ZonValue {
     this.expect("{");
     this.skipWhitespace();
@@ -81,36 +143,27 @@ class ZonParser {
 
   private detectObject(): boolean {
     const snapshot = this.pos;
-    this.skipWhitespace();
-    if (this.pos >= this.length) {
-      this.pos = snapshot;
+    try {
+      this.skipWhitespace();
+      this.parseIdentifier();
+      this.skipWhitespace();
+      return this.peek() === "=";
+    } catch {
       return false;
-    }
-    if (this.text[this.pos] === ".") {
-      this.pos += 1;
-      if (this.pos >= this.length) {
-        this.pos = snapshot;
-        return false;
-      }
-    }
-    const char = this.text[this.pos];
-    if (!isIdentifierStart(char)) {
+    } finally {
       this.pos = snapshot;
-      return false;
     }
-    while (this.pos < this.length && isIdentifierChar(this.text[this.pos])) {
-      this.pos += 1;
-    }
-    this.skipWhitespace();
-    const result = this.peek() === "=";
-    this.pos = snapshot;
-    return result;
   }
 
   private parseObjectBody(): { [key: string]: ZonValue } {
     const obj: { [key: string]: ZonValue } = {};
     while (true) {
       this.skipWhitespace();
+      if (this.peek() === "}") {
+        // Trailing comma before the closing brace
+        this.pos += 1;
+        break;
+      }
       const key = this.parseIdentifier();
       this.skipWhitespace();
       this.expect("=");
@@ -126,7 +179,7 @@ class ZonParser {
         this.pos += 1;
         break;
       }
-      throw new Error(`Unexpected character in object: ${char ?? "EOF"}`);
+      throw this.error(`Unexpected character in object: ${char ?? "EOF"}`);
     }
     return obj;
   }
@@ -134,6 +187,12 @@ class ZonParser {
   private parseArrayBody(): ZonValue[] {
     const arr: ZonValue[] = [];
     while (true) {
+      this.skipWhitespace();
+      if (this.peek() === "}") {
+        // Trailing comma before the closing brace
+        this.pos += 1;
+        break;
+      }
       const value = this.parseValue();
       arr.push(value);
       this.skipWhitespace();
@@ -146,24 +205,29 @@ class ZonParser {
         this.pos += 1;
         break;
       }
-      throw new Error(`Unexpected character in array: ${char ?? "EOF"}`);
+      throw this.error(`Unexpected character in array: ${char ?? "EOF"}`);
     }
     return arr;
   }
 
   private parseIdentifier(): string {
     if (this.pos >= this.length) {
-      throw new Error("Unexpected end of input when reading identifier");
+      throw this.error("Unexpected end of input when reading identifier");
     }
     if (this.text[this.pos] === ".") {
       this.pos += 1;
       if (this.pos >= this.length) {
-        throw new Error("Unexpected end of input after '.' in identifier");
+        throw this.error("Unexpected end of input after '.' in identifier");
       }
     }
+    if (this.text[this.pos] === "@" && this.text[this.pos + 1] === '"') {
+      // Quoted identifier: @"any text"
+      this.pos += 1;
+      return this.parseString();
+    }
     const char = this.text[this.pos];
     if (!isIdentifierStart(char)) {
-      throw new Error(`Invalid identifier start: ${char}`);
+      throw this.error(`Invalid identifier start: ${char}`);
     }
     const start = this.pos;
     this.pos += 1;
@@ -178,44 +242,138 @@ class ZonParser {
     let result = "";
     while (this.pos < this.length) {
       const char = this.text[this.pos];
+      if (char === "\n") {
+        break;
+      }
       this.pos += 1;
       if (char === '"') {
         return result;
       }
-      if (char === "\\") {
-        if (this.pos >= this.length) {
-          throw new Error("Unterminated escape sequence");
-        }
-        const next = this.text[this.pos];
-        this.pos += 1;
-        switch (next) {
-          case '"':
-            result += '"';
-            break;
-          case "\\":
-            result += "\\";
-            break;
-          case "n":
-            result += "\n";
-            break;
-          case "r":
-            result += "\r";
-            break;
-          case "t":
-            result += "\t";
-            break;
-          default:
-            result += next;
-            break;
-        }
+      if (char === "\\" && this.text[this.pos] === "x") {
+        result += this.parseByteEscapes();
+      } else if (char === "\\") {
+        result += this.parseEscape();
       } else {
         result += char;
       }
     }
-    throw new Error("Unterminated string literal");
+    throw this.error("Unterminated string literal");
   }
 
-  private parseNumber(): number {
+  // Zig strings are bytes, so a run of \x escapes is decoded as UTF-8: a
+  // multi-byte character may be written one byte at a time.
+  private parseByteEscapes(): string {
+    const bytes: number[] = [];
+    for (;;) {
+      this.pos += 1;
+      bytes.push(this.parseHexByte(this.pos - 2));
+      if (!this.text.startsWith("\\x", this.pos)) {
+        break;
+      }
+      this.pos += 1;
+    }
+    return Buffer.from(bytes).toString("utf8");
+  }
+
+  // Parses the two hex digits of a \x escape starting at `escapeStart`.
+  private parseHexByte(escapeStart: number): number {
+    const hex = this.text.slice(this.pos, this.pos + 2);
+    if (!/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      throw this.error("Invalid \\x escape", escapeStart);
+    }
+    this.pos += 2;
+    return Number.parseInt(hex, 16);
+  }
+
+  // Consecutive lines starting with \\ form one string, joined by newlines.
+  private parseMultilineString(): string {
+    const lines: string[] = [];
+    while (this.text.startsWith("\\\\", this.pos)) {
+      this.pos += 2;
+      const end = this.text.indexOf("\n", this.pos);
+      const lineEnd = end === -1 ? this.length : end;
+      lines.push(this.text.slice(this.pos, lineEnd).replace(/\r$/, ""));
+      this.pos = lineEnd;
+      const snapshot = this.pos;
+      this.skipWhitespace();
+      if (!this.text.startsWith("\\\\", this.pos)) {
+        this.pos = snapshot;
+        break;
+      }
+    }
+    return lines.join("\n");
+  }
+
+  // Character literals evaluate to their Unicode code point, as in Zig.
+  private parseCharLiteral(): number {
+    const start = this.pos;
+    this.expect("'");
+    let value: string;
+    const char = this.text[this.pos];
+    if (char === undefined || char === "\n") {
+      throw this.error("Unterminated character literal", start);
+    }
+    if (char === "\\") {
+      this.pos += 1;
+      value = this.parseEscape();
+    } else {
+      const codePoint = this.text.codePointAt(this.pos) ?? 0;
+      value = String.fromCodePoint(codePoint);
+      this.pos += value.length;
+    }
+    if (this.peek() !== "'") {
+      throw this.error("Character literal must contain one character", start);
+    }
+    this.pos += 1;
+    return value.codePointAt(0) ?? 0;
+  }
+
+  // Parses the escape sequence after a backslash.
+  private parseEscape(): string {
+    const escapeStart = this.pos - 1;
+    if (this.pos >= this.length) {
+      throw this.error("Unterminated escape sequence", escapeStart);
+    }
+    const next = this.text[this.pos];
+    this.pos += 1;
+    switch (next) {
+      case '"':
+        return '"';
+      case "'":
+        return "'";
+      case "\\":
+        return "\\";
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "t":
+        return "\t";
+      case "x":
+        return String.fromCharCode(this.parseHexByte(escapeStart));
+      case "u": {
+        const match = /^\{([0-9A-Fa-f]{1,6})\}/.exec(
+          this.text.slice(this.pos, this.pos + 9),
+        );
+        if (!match) {
+          throw this.error("Invalid \\u{...} escape", escapeStart);
+        }
+        const codePoint = Number.parseInt(match[1], 16);
+        if (
+          codePoint > 0x10ffff ||
+          (codePoint >= 0xd800 && codePoint <= 0xdfff)
+        ) {
+          throw this.error("Invalid Unicode code point in escape", escapeStart);
+        }
+        this.pos += match[0].length;
+        return String.fromCodePoint(codePoint);
+      }
+      default:
+        throw this.error(`Invalid escape sequence \\${next}`, escapeStart);
+    }
+  }
+
+  private parseNumber(): number | bigint {
     const start = this.pos;
     let sign = 1;
     if (this.peek() === "+" || this.peek() === "-") {
@@ -223,7 +381,9 @@ class ZonParser {
       this.pos += 1;
     }
 
-    const remainingLower = this.text.slice(this.pos).toLowerCase();
+    const remainingLower = this.text
+      .slice(this.pos, this.pos + 8)
+      .toLowerCase();
     if (remainingLower.startsWith("nan")) {
       this.pos += 3;
       return Number.NaN;
@@ -237,57 +397,45 @@ class ZonParser {
       return sign === -1 ? Number.NEGATIVE_INFINITY : Number.POSITIVE_INFINITY;
     }
 
-    let hasDigits = false;
-    let allowUnderscore = false;
-
-    const consumeDigits = (): boolean => {
-      let consumed = false;
-      while (this.pos < this.length) {
-        const ch = this.text[this.pos];
-        if (isDigit(ch)) {
-          consumed = true;
-          hasDigits = true;
-          allowUnderscore = true;
-          this.pos += 1;
-          continue;
-        }
-        if (ch === "_" && allowUnderscore) {
-          allowUnderscore = false;
-          this.pos += 1;
-          continue;
+    if (this.peek() === "0") {
+      const prefix = this.text[this.pos + 1];
+      const radix =
+        prefix === "x" ? 16 : prefix === "o" ? 8 : prefix === "b" ? 2 : 0;
+      if (radix !== 0) {
+        this.pos += 2;
+        const digits = this.consumeRadixDigits(radix);
+        if (digits.length === 0) {
+          throw this.error(
+            `Invalid number literal: ${this.text.slice(start, this.pos)}`,
+            start,
+          );
         }
-        break;
+        const magnitude = BigInt(`0${prefix}${digits}`);
+        return this.toIntegerValue(sign === -1 ? -magnitude : magnitude);
       }
-      return consumed;
-    };
+    }
 
-    consumeDigits();
-    if (this.peek() === ".") {
+    let hasDigits = this.consumeRadixDigits(10).length > 0;
+    let isFloat = false;
+    if (this.peek() === "." && isDigit(this.text[this.pos + 1] ?? "")) {
       this.pos += 1;
-      allowUnderscore = false;
-      const fractionDigits = consumeDigits();
-      if (!fractionDigits && !hasDigits) {
-        const lookahead = this.text.slice(
-          start,
-          Math.min(this.length, this.pos + 10),
-        );
-        throw new Error(`Invalid number literal: ${lookahead}`);
-      }
+      isFloat = true;
+      this.consumeRadixDigits(10);
+      hasDigits = true;
     }
 
-    allowUnderscore = false;
     if (this.peek() === "e" || this.peek() === "E") {
       this.pos += 1;
+      isFloat = true;
       if (this.peek() === "+" || this.peek() === "-") {
         this.pos += 1;
       }
-      const exponentDigits = consumeDigits();
-      if (!exponentDigits) {
+      if (this.consumeRadixDigits(10).length === 0) {
         const lookahead = this.text.slice(
           start,
           Math.min(this.length, this.pos + 10),
         );
-        throw new Error(`Invalid exponent in number: ${lookahead}`);
+        throw this.error(`Invalid exponent in number: ${lookahead}`, start);
       }
     }
     if (!hasDigits) {
@@ -295,25 +443,80 @@ class ZonParser {
         start,
         Math.min(this.length, this.pos + 10),
       );
-      throw new Error(`Invalid number literal: ${lookahead}`);
+      throw this.error(`Invalid number literal: ${lookahead}`, start);
+    }
+    const raw = this.text.slice(start, this.pos).replaceAll("_", "");
+    if (!isFloat) {
+      return this.toIntegerValue(BigInt(raw));
     }
-    const raw = this.text.slice(start, this.pos);
     const value = Number(raw);
     if (Number.isNaN(value)) {
-      throw new Error(`Failed to parse number: ${raw}`);
+      throw this.error(`Failed to parse number: ${raw}`, start);
+    }
+    return value;
+  }
+
+  // Digits of the given radix with single underscores between them.
+  private consumeRadixDigits(radix: number): string {
+    const pattern = DIGITS_BY_RADIX[radix];
+    let digits = "";
+    while (this.pos < this.length) {
+      const ch = this.text[this.pos];
+      if (pattern.test(ch)) {
+        digits += ch;
+        this.pos += 1;
+        continue;
+      }
+      if (
+        ch === "_" &&
+        digits.length > 0 &&
+        pattern.test(this.text[this.pos + 1] ?? "")
+      ) {
+        this.pos += 1;
+        continue;
+      }
+      break;
+    }
+    return digits;
+  }
+
+  // Integers that fit a JS number losslessly stay numbers; larger ones
+  // become bigints.
+  private toIntegerValue(value: bigint): number | bigint {
+    if (
+      value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+      value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ) {
+      return Number(value);
     }
     return value;
   }
 
   public skipWhitespace(): void {
-    while (this.pos < this.length && WHITESPACE.test(this.text[this.pos])) {
-      this.pos += 1;
+    while (this.pos < this.length) {
+      const char = this.text[this.pos];
+      if (WHITESPACE.test(char)) {
+        this.pos += 1;
+        continue;
+      }
+      if (char === "/" && this.text[this.pos + 1] === "/") {
+        const end = this.text.indexOf("\n", this.pos);
+        this.pos = end === -1 ? this.length : end + 1;
+        continue;
+      }
+      break;
     }
   }
 
+  public error(message: string, offset = this.pos): ZonParseError {
+    return new ZonParseError(message, this.text, offset);
+  }
+
   private expect(char: string): void {
     if (this.peek() !== char) {
-      throw new Error(`Expected '${char}' but found '${this.peek() ?? "EOF"}'`);
+      throw this.error(
+        `Expected '${char}' but found '${this.peek() ?? "EOF"}'`,
+      );
     }
     this.pos += 1;
   }
@@ -331,7 +534,199 @@ export function parseZon(text: string): ZonValue {
   const value = parser.parseValue();
   parser.skipWhitespace();
   if (parser.pos !== text.length) {
-    throw new Error("Trailing data after ZON parse");
+    throw parser.error("Trailing data after ZON parse");
   }
   return value;
 }
+
+export interface ZonStringifyOptions {
+  // Indentation per nesting level.  When set, non-empty structs and tuples
+  // are written one entry per line with trailing commas, as `zig fmt` does.
+  indent?: number | string;
+  // Escape every non-ASCII character as `\u{...}` so the output is plain
+  // ASCII.  Defaults to true.
+  asciiOnly?: boolean;
+}
+
+const BARE_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Words that cannot be written as bare field names.
+const RESERVED_IDENTIFIERS = new Set([
+  "_",
+  "addrspace",
+  "align",
+  "allowzero",
+  "and",
+  "anyframe",
+  "anytype",
+  "asm",
+  "async",
+  "await",
+  "break",
+  "callconv",
+  "catch",
+  "comptime",
+  "const",
+  "continue",
+  "defer",
+  "else",
+  "enum",
+  "errdefer",
+  "error",
+  "export",
+  "extern",
+  "false",
+  "fn",
+  "for",
+  "if",
+  "inf",
+  "inline",
+  "linksection",
+  "nan",
+  "noalias",
+  "noinline",
+  "nosuspend",
+  "null",
+  "opaque",
+  "or",
+  "orelse",
+  "packed",
+  "pub",
+  "resume",
+  "return",
+  "struct",
+  "suspend",
+  "switch",
+  "test",
+  "threadlocal",
+  "true",
+  "try",
+  "undefined",
+  "union",
+  "unreachable",
+  "usingnamespace",
+  "var",
+  "volatile",
+  "while",
+]);
+
+function escapeZonChar(char: string, asciiOnly: boolean): string {
+  switch (char) {
+    case '"':
+      return '\\"';
+    case "\\":
+      return "\\\\";
+    case "\n":
+      return "\\n";
+    case "\r":
+      return "\\r";
+    case "\t":
+      return "\\t";
+  }
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x20 || code === 0x7f) {
+    return `\\x${code.toString(16).padStart(2, "0")}`;
+  }
+  if (code > 0x7f && asciiOnly) {
+    return `\\u{${code.toString(16)}}`;
+  }
+  return char;
+}
+
+export function quoteZonString(value: string, asciiOnly = true): string {
+  let out = '"';
+  // Iterating the string walks code points, so surrogate pairs stay whole.
+  for (const char of value) {
+    out += escapeZonChar(char, asciiOnly);
+  }
+  return `${out}"`;
+}
+
+export function formatZonIdentifier(name: string, asciiOnly = true): string {
+  if (BARE_IDENTIFIER.test(name) && !RESERVED_IDENTIFIERS.has(name)) {
+    return name;
+  }
+  return `@${quoteZonString(name, asciiOnly)}`;
+}
+
+function formatZonNumber(value: number): string {
+  if (Number.isNaN(value)) {
+    return "nan";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "inf" : "-inf";
+  }
+  if (Object.is(value, -0)) {
+    return "-0.0";
+  }
+  // Integer literals this large parse as bigint; exponent notation keeps
+  // them numbers.
+  if (Number.isInteger(value) && !Number.isSafeInteger(value)) {
+    return value.toExponential();
+  }
+  return String(value);
+}
+
+function stringifyValue(
+  value: ZonValue,
+  indent: string,
+  depth: number,
+  asciiOnly: boolean,
+  seen: Set<object>,
+): string {
+  switch (typeof value) {
+    case "string":
+      return quoteZonString(value, asciiOnly);
+    case "number":
+      return formatZonNumber(value);
+    case "bigint":
+      return value.toString();
+    case "boolean":
+      return value ? "true" : "false";
+  }
+  if (value === null) {
+    return "null";
+  }
+  if (typeof value !== "object") {
+    throw new TypeError(`Cannot serialize ${typeof value} as ZON`);
+  }
+  if (seen.has(value)) {
+    throw new TypeError("Cannot serialize a circular structure as ZON");
+  }
+  seen.add(value);
+  const entries = Array.isArray(value)
+    ? value.map((item) =>
+        stringifyValue(item, indent, depth + 1, asciiOnly, seen),
+      )
+    : Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(
+          ([key, item]) =>
+            `.${formatZonIdentifier(key, asciiOnly)} = ${stringifyValue(item, indent, depth + 1, asciiOnly, seen)}`,
+        );
+  seen.delete(value);
+  if (entries.length === 0) {
+    return ".{}";
+  }
+  if (indent.length === 0) {
+    return `.{ ${entries.join(", ")} }`;
+  }
+  const inner = indent.repeat(depth + 1);
+  const lines = entries.map((entry) => `${inner}${entry},\n`).join("");
+  return `.{\n${lines}${indent.repeat(depth)}}`;
+}
+
+// Serialize a value as ZON.  The output is accepted by `parseZon` and yields
+// the same value back, except that an empty struct reads back as an empty
+// tuple, since both are written `.{}`.  `undefined` struct fields are
+// omitted.
+export function stringifyZon(
+  value: ZonValue,
+  options: ZonStringifyOptions = {},
+): string {
+  const indent =
+    typeof options.indent === "number"
+      ? " ".repeat(Math.max(0, options.indent))
+      : (options.indent ?? "");
+  return stringifyValue(value, indent, 0, options.asciiOnly ?? true, new Set());
+}
@@ -0,0 +1,395 @@
+import type { Vector3 } from "./connectionTypes.js";
+import type { ZonValue } from "./zon.js";
+
+export type ZonPath = (string | number)[];
+
+export interface ZonIssue {
+  path: ZonPath;
+  message: string;
+}
+
+export function formatZonPath(path: ZonPath): string {
+  let out = "";
+  for (const segment of path) {
+    out += typeof segment === "number" ? `[${segment}]` : `.${segment}`;
+  }
+  return out.length > 0 ? out.replace(/^\./, "") : "<root>";
+}
+
+export class ZonSchemaError extends Error {
+  public readonly issues: ZonIssue[];
+
+  constructor(issues: ZonIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : "";
+    super(
+      first
+        ? `Invalid ZON at ${formatZonPath(first.path)}: ${first.message}${more}`
+        : "Invalid ZON",
+    );
+    this.name = "ZonSchemaError";
+    this.issues = issues;
+  }
+
+  // Path of the first failing value.
+  get path(): ZonPath {
+    return this.issues[0]?.path ?? [];
+  }
+}
+
+export type ZonSafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: ZonSchemaError };
+
+// Returned by checks that rejected their input; the issue is already recorded.
+const INVALID: unique symbol = Symbol("invalid");
+type Invalid = typeof INVALID;
+
+type Check<T> = (
+  value: ZonValue | undefined,
+  path: ZonPath,
+  issues: ZonIssue[],
+) => T | Invalid;
+
+function describe(value: ZonValue | undefined): string {
+  if (value === undefined) {
+    return "nothing";
+  }
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "tuple";
+  }
+  return typeof value === "object" ? "struct" : typeof value;
+}
+
+function isStruct(
+  value: ZonValue | undefined,
+): value is { [key: string]: ZonValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A ZonSchema validates a parsed ZON value and produces a typed result.
+ * Schemas are built with the `z` helpers and composed into larger ones.
+ */
+export class ZonSchema<T> {
+  private readonly check: Check<T>;
+
+  constructor(check: Check<T>) {
+    this.check = check;
+  }
+
+  // Validate `value`, recording problems in `issues`.  Returns undefined when
+  // the value was rejected.  Used to embed one schema in a larger decoder.
+  validate(
+    value: ZonValue | undefined,
+    path: ZonPath,
+    issues: ZonIssue[],
+  ): { value: T } | undefined {
+    const result = this.check(value, path, issues);
+    return result === INVALID ? undefined : { value: result };
+  }
+
+  safeParse(value: ZonValue | undefined): ZonSafeParseResult<T> {
+    const issues: ZonIssue[] = [];
+    const result = this.check(value, [], issues);
+    if (result === INVALID) {
+      return { success: false, error: new ZonSchemaError(issues) };
+    }
+    return { success: true, data: result };
+  }
+
+  // Returns the typed value or throws a ZonSchemaError.
+  parse(value: ZonValue | undefined): T {
+    const result = this.safeParse(value);
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.data;
+  }
+
+  optional(): ZonSchema<T | undefined> {
+    return new ZonSchema<T | undefined>((value, path, issues) =>
+      value === undefined ? undefined : this.check(value, path, issues),
+    );
+  }
+
+  nullable(): ZonSchema<T | null> {
+    return new ZonSchema<T | null>((value, path, issues) =>
+      value === null ? null : this.check(value, path, issues),
+    );
+  }
+
+  // Use `fallback` when the field is missing.
+  default(fallback: T): ZonSchema<T> {
+    return new ZonSchema((value, path, issues) =>
+      value === undefined ? fallback : this.check(value, path, issues),
+    );
+  }
+
+  transform<U>(map: (value: T) => U): ZonSchema<U> {
+    return new ZonSchema((value, path, issues) => {
+      const result = this.check(value, path, issues);
+      return result === INVALID ? INVALID : map(result);
+    });
+  }
+
+  // Extra validation on the decoded value; `message` is reported on failure.
+  refine(predicate: (value: T) => boolean, message: string): ZonSchema<T> {
+    return new ZonSchema((value, path, issues) => {
+      const result = this.check(value, path, issues);
+      if (result === INVALID) {
+        return INVALID;
+      }
+      if (!predicate(result)) {
+        issues.push({ path, message });
+        return INVALID;
+      }
+      return result;
+    });
+  }
+}
+
+export type InferZon<S> = S extends ZonSchema<infer T> ? T : never;
+
+type Shape = Record<string, ZonSchema<unknown>>;
+
+type InferShape<S extends Shape> = { [K in keyof S]: InferZon<S[K]> };
+
+function primitive<T>(
+  expected: string,
+  accept: (value: ZonValue | undefined) => value is ZonValue & T,
+): ZonSchema<T> {
+  return new ZonSchema((value, path, issues) => {
+    if (accept(value)) {
+      return value;
+    }
+    issues.push({
+      path,
+      message: `expected ${expected}, got ${describe(value)}`,
+    });
+    return INVALID;
+  });
+}
+
+function any(): ZonSchema<ZonValue> {
+  return new ZonSchema((value, path, issues) => {
+    if (value === undefined) {
+      issues.push({ path, message: "missing value" });
+      return INVALID;
+    }
+    return value;
+  });
+}
+
+function string(): ZonSchema<string> {
+  return primitive("string", (value): value is string => {
+    return typeof value === "string";
+  });
+}
+
+function number(): ZonSchema<number> {
+  return primitive("number", (value): value is number => {
+    return typeof value === "number";
+  });
+}
+
+function int(): ZonSchema<number> {
+  return primitive("integer", (value): value is number => {
+    return Number.isInteger(value);
+  });
+}
+
+function boolean(): ZonSchema<boolean> {
+  return primitive("boolean", (value): value is boolean => {
+    return typeof value === "boolean";
+  });
+}
+
+// Integers of any size.  Small integers are parsed as numbers by parseZon,
+// so both forms are accepted.
+function bigint(): ZonSchema<bigint> {
+  return new ZonSchema((value, path, issues) => {
+    if (typeof value === "bigint") {
+      return value;
+    }
+    if (Number.isInteger(value)) {
+      return BigInt(value as number);
+    }
+    issues.push({
+      path,
+      message: `expected integer, got ${describe(value)}`,
+    });
+    return INVALID;
+  });
+}
+
+// Integers of any size, kept as parsed: numbers up to 2^53, bigints above.
+function intOrBigint(): ZonSchema<number | bigint> {
+  return primitive("integer", (value): value is number | bigint => {
+    return typeof value === "bigint" || Number.isInteger(value);
+  });
+}
+
+function literal<const T extends string | number | boolean | null>(
+  expected: T,
+): ZonSchema<T> {
+  return new ZonSchema((value, path, issues) => {
+    if (value === expected) {
+      return expected;
+    }
+    issues.push({
+      path,
+      message: `expected ${JSON.stringify(expected)}, got ${describe(value)}`,
+    });
+    return INVALID;
+  });
+}
+
+function array<T>(item: ZonSchema<T>): ZonSchema<T[]> {
+  return new ZonSchema((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({
+        path,
+        message: `expected tuple, got ${describe(value)}`,
+      });
+      return INVALID;
+    }
+    const out: T[] = [];
+    let valid = true;
+    value.forEach((entry, index) => {
+      const result = item.validate(entry, [...path, index], issues);
+      if (result) {
+        out.push(result.value);
+      } else {
+        valid = false;
+      }
+    });
+    return valid ? out : INVALID;
+  });
+}
+
+// Unknown fields are ignored.
+function object<S extends Shape>(shape: S): ZonSchema<InferShape<S>> {
+  return new ZonSchema((value, path, issues) => {
+    if (!isStruct(value)) {
+      issues.push({
+        path,
+        message: `expected struct, got ${describe(value)}`,
+      });
+      return INVALID;
+    }
+    const out: Record<string, unknown> = {};
+    let valid = true;
+    for (const [key, schema] of Object.entries(shape)) {
+      const result = schema.validate(value[key], [...path, key], issues);
+      if (!result) {
+        valid = false;
+      } else if (result.value !== undefined) {
+        out[key] = result.value;
+      }
+    }
+    return valid ? (out as InferShape<S>) : INVALID;
+  });
+}
+
+function record<T>(item: ZonSchema<T>): ZonSchema<Record<string, T>> {
+  return new ZonSchema((value, path, issues) => {
+    if (!isStruct(value)) {
+      issues.push({
+        path,
+        message: `expected struct, got ${describe(value)}`,
+      });
+      return INVALID;
+    }
+    const out: Record<string, T> = {};
+    let valid = true;
+    for (const [key, entry] of Object.entries(value)) {
+      const result = item.validate(entry, [...path, key], issues);
+      if (result) {
+        out[key] = result.value;
+      } else {
+        valid = false;
+      }
+    }
+    return valid ? out : INVALID;
+  });
+}
+
+// The first matching option wins.  When none match, the issues of the option
+// that got furthest into the value are reported.
+function union<const O extends ZonSchema<unknown>[]>(
+  options: O,
+): ZonSchema<InferZon<O[number]>> {
+  return new ZonSchema((value, path, issues) => {
+    let closest: ZonIssue[] = [];
+    let closestDepth = path.length;
+    for (const option of options) {
+      const optionIssues: ZonIssue[] = [];
+      const result = option.validate(value, path, optionIssues);
+      if (result) {
+        return result.value as InferZon<O[number]>;
+      }
+      const depth = Math.max(...optionIssues.map((issue) => issue.path.length));
+      if (depth > closestDepth) {
+        closest = optionIssues;
+        closestDepth = depth;
+      }
+    }
+    if (closest.length > 0) {
+      issues.push(...closest);
+    } else {
+      issues.push({
+        path,
+        message: `${describe(value)} does not match any of the allowed types`,
+      });
+    }
+    return INVALID;
+  });
+}
+
+// Positions, velocities and rotations are sent as `.{x, y, z}`.
+function vec3(): ZonSchema<Vector3> {
+  return new ZonSchema((value, path, issues) => {
+    if (!Array.isArray(value) || value.length !== 3) {
+      issues.push({
+        path,
+        message: `expected tuple of 3 numbers, got ${describe(value)}`,
+      });
+      return INVALID;
+    }
+    let valid = true;
+    value.forEach((entry, index) => {
+      if (typeof entry !== "number") {
+        issues.push({
+          path: [...path, index],
+          message: `expected number, got ${describe(entry)}`,
+        });
+        valid = false;
+      }
+    });
+    if (!valid) {
+      return INVALID;
+    }
+    const [x, y, z] = value as number[];
+    return { x, y, z };
+  });
+}
+
+export const z = {
+  any,
+  string,
+  number,
+  int,
+  boolean,
+  bigint,
+  intOrBigint,
+  literal,
+  array,
+  object,
+  record,
+  union,
+  vec3,
+};
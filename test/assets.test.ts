@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { createHash } from "node:crypto";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { deflateRawSync } from "node:zlib";
+import { loadAssets, parseAssetArchive } from "../src/assets.js";
+import { ASSETS_MAX_INFLATED_BYTES } from "../src/constants.js";
+
+function archive(files: Record<string, string>): Buffer {
+  const parts: Buffer[] = [];
+  for (const [filePath, data] of Object.entries(files)) {
+    const name = Buffer.from(filePath);
+    const content = Buffer.from(data);
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(name.length);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(content.length);
+    parts.push(header, name, length, content);
+  }
+  return Buffer.concat(parts);
+}
+
+const FILES = {
+  "cubyz/blocks/stone.zig.zon": '{ .drop = "cubyz:cobblestone" }',
+  "cubyz\\blocks\\ores/iron.zig.zon": "{ .hardness = 3 }",
+  "cubyz/blocks/_defaults.zig.zon": "{}",
+  "cubyz/items/broken.zig.zon": "{ .a = ",
+  "cubyz/blocks/textures/stone.png": "png",
+};
+
+describe("parseAssetArchive", () => {
+  it("splits the archive into files", () => {
+    const files = parseAssetArchive(archive({ "a/b.txt": "hello" }));
+    assert.deepEqual([...files.keys()], ["a/b.txt"]);
+    assert.equal(files.get("a/b.txt")?.toString(), "hello");
+  });
+
+  it("rejects truncated archives", () => {
+    const data = archive({ "a/b.txt": "hello" });
+    assert.throws(
+      () => parseAssetArchive(data.subarray(0, data.length - 1)),
+      /truncated \(data of a\/b.txt\)/,
+    );
+    assert.throws(() => parseAssetArchive(data.subarray(0, 2)), /truncated/);
+  });
+});
+
+describe("loadAssets", () => {
+  it("indexes and parses definitions", async () => {
+    const assets = await loadAssets(deflateRawSync(archive(FILES)));
+    assert.deepEqual(assets.listDefinitions("blocks").sort(), [
+      "cubyz:ores/iron",
+      "cubyz:stone",
+    ]);
+    assert.deepEqual(assets.getBlock("cubyz:stone"), {
+      drop: "cubyz:cobblestone",
+    });
+    assert.deepEqual(assets.getBlock("cubyz:ores/iron"), { hardness: 3 });
+    assert.equal(assets.getItem("cubyz:broken"), undefined);
+    assert.equal(assets.getBlock("cubyz:missing"), undefined);
+    assert.equal(
+      assets.getFile("cubyz/blocks/textures/stone.png")?.toString(),
+      "png",
+    );
+    assert.equal(assets.listFiles("cubyz/items/").length, 1);
+  });
+
+  it("caches the inflated archive per server and hash", async () => {
+    const cacheDir = await mkdtemp(path.join(tmpdir(), "cubyz-assets-"));
+    try {
+      const cache = { cacheDir, host: "::1", port: 47649 };
+      const compressed = deflateRawSync(archive(FILES));
+      const first = await loadAssets(compressed, cache);
+      assert.deepEqual(await readdir(cacheDir), ["__1_47649"]);
+      const cached = await readFile(
+        path.join(cacheDir, "__1_47649", `${first.hash}.bin`),
+      );
+      const digest = createHash("sha256").update(archive(FILES)).digest();
+      assert.deepEqual(cached, Buffer.concat([digest, archive(FILES)]));
+      const second = await loadAssets(compressed, cache);
+      assert.equal(second.hash, first.hash);
+      assert.deepEqual(second.listFiles(), first.listFiles());
+    } finally {
+      await rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it("rebuilds corrupted or truncated cache files", async () => {
+    const cacheDir = await mkdtemp(path.join(tmpdir(), "cubyz-assets-"));
+    try {
+      const cache = { cacheDir, host: "localhost", port: 47649 };
+      const compressed = deflateRawSync(archive(FILES));
+      const { hash } = await loadAssets(compressed, cache);
+      const filePath = path.join(cacheDir, "localhost_47649", `${hash}.bin`);
+      const valid = await readFile(filePath);
+
+      // A flipped byte in the archive no longer matches the digest.
+      const corrupted = Buffer.from(valid);
+      corrupted[corrupted.length - 2] ^= 0xff;
+      await writeFile(filePath, corrupted);
+      const reloaded = await loadAssets(compressed, cache);
+      assert.deepEqual(reloaded.getBlock("cubyz:stone"), {
+        drop: "cubyz:cobblestone",
+      });
+      assert.deepEqual(await readFile(filePath), valid);
+
+      await writeFile(filePath, valid.subarray(0, 10));
+      await loadAssets(compressed, cache);
+      assert.deepEqual(await readFile(filePath), valid);
+    } finally {
+      await rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps separate cache files for different archives", async () => {
+    const cacheDir = await mkdtemp(path.join(tmpdir(), "cubyz-assets-"));
+    try {
+      const cache = { cacheDir, host: "localhost", port: 47649 };
+      const first = await loadAssets(deflateRawSync(archive(FILES)), cache);
+      const second = await loadAssets(
+        deflateRawSync(archive({ "cubyz/blocks/dirt.zig.zon": "{}" })),
+        cache,
+      );
+      assert.notEqual(second.hash, first.hash);
+      assert.deepEqual(second.listDefinitions("blocks"), ["cubyz:dirt"]);
+      assert.deepEqual(
+        (await readdir(path.join(cacheDir, "localhost_47649"))).sort(),
+        [`${first.hash}.bin`, `${second.hash}.bin`].sort(),
+      );
+    } finally {
+      await rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses archives that inflate beyond the limit", async () => {
+    const compressed = deflateRawSync(
+      Buffer.alloc(ASSETS_MAX_INFLATED_BYTES + 1),
+      { level: 1 },
+    );
+    await assert.rejects(loadAssets(compressed), {
+      code: "ERR_BUFFER_TOO_LARGE",
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { describe, it } from "node:test";
+import { splitChatMessage } from "../src/chatFormat.js";
+
+describe("splitChatMessage", () => {
+  it("keeps messages that fit", () => {
+    assert.deepEqual(splitChatMessage("hello"), ["hello"]);
+    assert.deepEqual(splitChatMessage(""), []);
+  });
+
+  it("breaks at line ends, then spaces", () => {
+    assert.deepEqual(
+      splitChatMessage("aaa bbb ccc", { maxVisibleCharacters: 7 }),
+      ["aaa", "bbb ccc"],
+    );
+    assert.deepEqual(
+      splitChatMessage("one two\r\nthree four", { maxVisibleCharacters: 12 }),
+      ["one two", "three four"],
+    );
+  });
+
+  it("counts bytes and never splits a character", () => {
+    const parts = splitChatMessage("ééé ééé", { maxBytes: 6 });
+    assert.deepEqual(parts, ["ééé", "ééé"]);
+    assert.deepEqual(splitChatMessage("😀😀😀", { maxBytes: 8 }), [
+      "😀😀",
+      "😀",
+    ]);
+    for (const part of splitChatMessage("ä".repeat(30), { maxBytes: 7 })) {
+      assert.ok(Buffer.byteLength(part) <= 7);
+      assert.equal(part, "ä".repeat(part.length));
+    }
+  });
+
+  it("reopens the styles active at the break", () => {
+    assert.deepEqual(
+      splitChatMessage("*bold text here*", { maxVisibleCharacters: 9 }),
+      ["*bold", "*text here*"],
+    );
+    assert.deepEqual(
+      splitChatMessage("#ff0000red __and__ blue text", {
+        maxVisibleCharacters: 8,
+      }),
+      ["#ff0000red __and__", "#ff0000blue", "#ff0000text"],
+    );
+  });
+
+  it("never cuts inside a markup token", () => {
+    assert.deepEqual(splitChatMessage("ab\\*cd", { maxVisibleCharacters: 3 }), [
+      "ab\\*",
+      "cd",
+    ]);
+    assert.throws(
+      () => splitChatMessage("#ff0000x", { maxBytes: 3 }),
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ChatMessageBuilder,
+  escapeChatMarkup,
+  parseChatMarkup,
+  toAnsi,
+  toHtml,
+  toPlainText,
+} from "../src/chatMarkup.js";
+
+const plain = {
+  bold: false,
+  underline: false,
+  strikethrough: false,
+  color: null,
+};
+
+describe("parseChatMarkup", () => {
+  it("splits text into styled spans", () => {
+    assert.deepEqual(parseChatMarkup("a*b*__c__#FF0000d§e"), [
+      { text: "a", style: plain },
+      { text: "b", style: { ...plain, bold: true } },
+      { text: "c", style: { ...plain, underline: true } },
+      { text: "d", style: { ...plain, color: "#ff0000" } },
+      { text: "e", style: plain },
+    ]);
+  });
+
+  it("treats single underscores, tildes and escapes as text", () => {
+    assert.equal(
+      toPlainText("snake_case ~1 \\*not bold\\*"),
+      "snake_case ~1 *not bold*",
+    );
+    assert.deepEqual(parseChatMarkup("~~gone~~"), [
+      { text: "gone", style: { ...plain, strikethrough: true } },
+    ]);
+  });
+});
+
+describe("renderers", () => {
+  it("renders ANSI escapes", () => {
+    assert.equal(toAnsi("*hi*"), "\x1b[1mhi\x1b[0m");
+    assert.equal(toAnsi("#00ff80x"), "\x1b[38;2;0;255;128mx\x1b[0m");
+  });
+
+  it("renders escaped HTML", () => {
+    assert.equal(
+      toHtml("<b>*&*"),
+      '&lt;b&gt;<span style="font-weight:bold">&amp;</span>',
+    );
+    assert.equal(
+      toHtml("__~~x~~__"),
+      '<span style="text-decoration:underline line-through">x</span>',
+    );
+  });
+});
+
+describe("ChatMessageBuilder", () => {
+  it("escapes text and closes every style", () => {
+    const message = new ChatMessageBuilder()
+      .text("5*3 ")
+      .bold("big")
+      .text(" ")
+      .color("#00FF00", "green")
+      .text("!")
+      .toString();
+    assert.equal(message, "5\\*3 *big* #00ff00green§!");
+    assert.equal(toPlainText(message), "5*3 big green!");
+    assert.equal(parseChatMarkup(message).at(-1)?.style.color, null);
+  });
+
+  it("rejects invalid colors", () => {
+    assert.throws(() => new ChatMessageBuilder().color("red", "x"), RangeError);
+  });
+
+  it("escapes every markup character", () => {
+    const text = "*_~#§\\";
+    assert.equal(toPlainText(escapeChatMarkup(text)), text);
+  });
+});
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CHAT_PRIORITY,
+  ChatQueue,
+  ChatQueueError,
+  type ChatTransmit,
+} from "../src/chatQueue.js";
+import type { DeliveryCallback } from "../src/sendChannel.js";
+
+function recorder() {
+  const sent: string[] = [];
+  const deliveries: DeliveryCallback[] = [];
+  const transmit: ChatTransmit = (message, onDelivery) => {
+    sent.push(message);
+    deliveries.push(onDelivery);
+  };
+  return { sent, deliveries, transmit };
+}
+
+function reason(error: unknown): string | undefined {
+  return error instanceof ChatQueueError ? error.reason : undefined;
+}
+
+describe("ChatQueue", () => {
+  it("sends a burst right away and paces the rest", async () => {
+    const { sent, deliveries, transmit } = recorder();
+    const queue = new ChatQueue(transmit, { rate: 20, burst: 2 });
+    const sends = ["a", "b", "c"].map((message) => queue.send(message));
+    assert.deepEqual(sent, ["a", "b"]);
+    assert.equal(queue.size, 1);
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    assert.deepEqual(sent, ["a", "b", "c"]);
+    for (const onDelivery of deliveries) {
+      onDelivery(true);
+    }
+    await Promise.all(sends);
+  });
+
+  it("resolves on delivery and rejects undelivered messages", async () => {
+    const { deliveries, transmit } = recorder();
+    const queue = new ChatQueue(transmit);
+    const delivered = queue.send("ok");
+    const lost = queue.send("lost");
+    deliveries[0](true);
+    deliveries[1](false);
+    await delivered;
+    await assert.rejects(lost, (error) => reason(error) === "undelivered");
+  });
+
+  it("sends higher priorities first and evicts when full", async () => {
+    const { sent, deliveries, transmit } = recorder();
+    const queue = new ChatQueue(transmit, {
+      rate: 1000,
+      burst: 1,
+      maxBacklog: 2,
+    });
+    queue.pause();
+    const low = queue.send("low", { priority: CHAT_PRIORITY.LOW });
+    const normal = queue.send("normal");
+    const high = queue.send("high", { priority: CHAT_PRIORITY.HIGH });
+    await assert.rejects(low, (error) => reason(error) === "evicted");
+    await assert.rejects(
+      queue.send("another low", { priority: CHAT_PRIORITY.LOW }),
+      (error) => reason(error) === "backlogFull",
+    );
+    queue.resume();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.deepEqual(sent, ["high", "normal"]);
+    for (const onDelivery of deliveries) {
+      onDelivery(true);
+    }
+    await Promise.all([normal, high]);
+  });
+
+  it("removes aborted messages and clears the backlog", async () => {
+    const { sent, transmit } = recorder();
+    const queue = new ChatQueue(transmit);
+    queue.pause();
+    const controller = new AbortController();
+    const aborted = queue.send("aborted", { signal: controller.signal });
+    const cleared = queue.send("cleared");
+    controller.abort(new Error("stop"));
+    await assert.rejects(aborted, /stop/);
+    queue.clear();
+    await assert.rejects(cleared, (error) => reason(error) === "cleared");
+    assert.equal(queue.size, 0);
+    assert.deepEqual(sent, []);
+  });
+
+  it("rejects messages the transport refuses without using the rate", async () => {
+    const sent: string[] = [];
+    const queue = new ChatQueue(
+      (message) => {
+        if (message === "bad") {
+          throw new RangeError("bad message");
+        }
+        sent.push(message);
+      },
+      { burst: 1 },
+    );
+    await assert.rejects(queue.send("bad"), RangeError);
+    void queue.send("good");
+    assert.deepEqual(sent, ["good"]);
+    queue.clear();
+  });
+});
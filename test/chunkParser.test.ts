@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { describe, it } from "node:test";
+import { deflateRawSync } from "node:zlib";
+import {
+  chunkBlockIndex,
+  chunkKey,
+  chunkPositionAt,
+  chunksInRange,
+  encodeChunkRequests,
+  parseChunkTransmission,
+} from "../src/chunkParser.js";
+import { CHUNK_COMPRESSION, CHUNK_VOLUME } from "../src/constants.js";
+
+function transmission(compression: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(20);
+  header.writeInt32BE(32, 0);
+  header.writeInt32BE(-64, 4);
+  header.writeInt32BE(0, 8);
+  header.writeInt32BE(1, 12);
+  header.writeUInt32BE(compression, 16);
+  return Buffer.concat([header, data]);
+}
+
+describe("chunk positions", () => {
+  it("maps world positions to chunk origins", () => {
+    assert.deepEqual(chunkPositionAt({ x: 33.5, y: -0.5, z: 31.9 }), {
+      wx: 32,
+      wy: -32,
+      wz: 0,
+      voxelSize: 1,
+    });
+    assert.equal(
+      chunkKey({ wx: 32, wy: -32, wz: 0, voxelSize: 1 }),
+      "32,-32,0,1",
+    );
+    assert.equal(chunkBlockIndex(1, 2, 3), (1 << 10) | (2 << 5) | 3);
+  });
+
+  it("lists chunks in range nearest first", () => {
+    const center = { wx: 0, wy: 0, wz: 0, voxelSize: 1 };
+    const positions = chunksInRange(center, 1);
+    assert.equal(positions.length, 7);
+    assert.deepEqual(positions[0], center);
+    assert.equal(chunksInRange(center, 2).length, 33);
+  });
+});
+
+describe("encodeChunkRequests", () => {
+  it("encodes requests relative to the base chunk", () => {
+    const base = { wx: 64, wy: 0, wz: -32, voxelSize: 1 };
+    const [message, ...rest] = encodeChunkRequests(base, 2, [
+      base,
+      { wx: 32, wy: 32, wz: -32, voxelSize: 1 },
+    ]);
+    assert.equal(rest.length, 0);
+    assert.equal(message.readInt32BE(0), 64);
+    assert.equal(message.readInt32BE(8), -32);
+    assert.equal(message.readUInt16BE(12), 64);
+    assert.deepEqual([...message.subarray(14)], [0, 0, 0, 0, 0xff, 1, 0, 0]);
+  });
+
+  it("splits large batches into several messages", () => {
+    const center = { wx: 0, wy: 0, wz: 0, voxelSize: 1 };
+    const requests = chunksInRange(center, 6);
+    const messages = encodeChunkRequests(center, 6, requests);
+    assert.ok(messages.length > 1);
+    const entries = messages.reduce(
+      (total, message) => total + (message.length - 14) / 4,
+      0,
+    );
+    assert.equal(entries, requests.length);
+  });
+});
+
+describe("parseChunkTransmission", () => {
+  it("decodes uniform chunks", () => {
+    const data = Buffer.alloc(4);
+    data.writeUInt32BE(7);
+    const chunk = parseChunkTransmission(
+      transmission(CHUNK_COMPRESSION.UNIFORM, data),
+    );
+    assert.deepEqual(chunk.position, { wx: 32, wy: -64, wz: 0, voxelSize: 1 });
+    assert.ok(chunk.blocks.every((block) => block === 7));
+  });
+
+  it("decodes deflated chunks", () => {
+    const raw = Buffer.alloc(CHUNK_VOLUME * 4);
+    raw.writeUInt32BE(0x10002, chunkBlockIndex(1, 2, 3) * 4);
+    const chunk = parseChunkTransmission(
+      transmission(CHUNK_COMPRESSION.DEFLATE, deflateRawSync(raw)),
+    );
+    assert.equal(chunk.blocks[chunkBlockIndex(1, 2, 3)], 0x10002);
+    assert.equal(chunk.blocks[0], 0);
+  });
+
+  it("decodes 8-bit palette chunks", () => {
+    const indices = Buffer.alloc(CHUNK_VOLUME);
+    indices[5] = 1;
+    const palette = Buffer.alloc(9);
+    palette[0] = 2;
+    palette.writeUInt32BE(3, 1);
+    palette.writeUInt32BE(9, 5);
+    const chunk = parseChunkTransmission(
+      transmission(
+        CHUNK_COMPRESSION.DEFLATE_WITH_8BIT_PALETTE,
+        Buffer.concat([palette, deflateRawSync(indices)]),
+      ),
+    );
+    assert.equal(chunk.blocks[0], 3);
+    assert.equal(chunk.blocks[5], 9);
+  });
+
+  it("rejects malformed payloads", () => {
+    assert.throws(() => parseChunkTransmission(Buffer.alloc(10)), /too short/);
+    assert.throws(
+      () => parseChunkTransmission(transmission(99, Buffer.alloc(4))),
+      /Unsupported/,
+    );
+    assert.throws(
+      () =>
+        parseChunkTransmission(
+          transmission(
+            CHUNK_COMPRESSION.DEFLATE,
+            deflateRawSync(Buffer.alloc(8)),
+          ),
+        ),
+      /Expected 131072 bytes of chunk data, got 8/,
+    );
+  });
+
+  it("refuses data that inflates beyond one chunk", () => {
+    assert.throws(
+      () =>
+        parseChunkTransmission(
+          transmission(
+            CHUNK_COMPRESSION.DEFLATE,
+            deflateRawSync(Buffer.alloc(CHUNK_VOLUME * 4 + 1)),
+          ),
+        ),
+      /More than 131072 bytes of chunk data/,
+    );
+    const palette = Buffer.from([1, 0, 0, 0, 2]);
+    assert.throws(
+      () =>
+        parseChunkTransmission(
+          transmission(
+            CHUNK_COMPRESSION.DEFLATE_WITH_8BIT_PALETTE,
+            Buffer.concat([
+              palette,
+              deflateRawSync(Buffer.alloc(CHUNK_VOLUME + 1)),
+            ]),
+          ),
+        ),
+      /More than 32768 bytes of chunk palette indices/,
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CommandError,
+  CommandRouter,
+  parseChatLine,
+  tokenizeCommand,
+} from "../src/commandRouter.js";
+import { CubyzConnection } from "../src/connection.js";
+
+describe("tokenizeCommand", () => {
+  it("splits on whitespace", () => {
+    assert.deepEqual(tokenizeCommand("  give  Bot\t64 "), [
+      "give",
+      "Bot",
+      "64",
+    ]);
+    assert.deepEqual(tokenizeCommand(""), []);
+  });
+
+  it("groups quoted words", () => {
+    assert.deepEqual(tokenizeCommand(`say "hello world" 'it''s'`), [
+      "say",
+      "hello world",
+      "its",
+    ]);
+    assert.deepEqual(tokenizeCommand(`a "" b`), ["a", "", "b"]);
+  });
+
+  it("unescapes backslashes", () => {
+    assert.deepEqual(tokenizeCommand(`a\\ b "say \\"hi\\""`), [
+      "a b",
+      'say "hi"',
+    ]);
+  });
+
+  it("rejects unterminated quotes", () => {
+    assert.throws(() => tokenizeCommand(`say "oops`), CommandError);
+  });
+});
+
+describe("parseChatLine", () => {
+  const names = ["Bob", "Bob§#ffffff] Alice", "Eve"];
+
+  it("picks out messages from online players", () => {
+    assert.deepEqual(parseChatLine("[Eve§#ffffff] !help", names), {
+      sender: "Eve",
+      text: "!help",
+    });
+    assert.deepEqual(parseChatLine("[Bob§#ffffff] Alice§#ffffff] hi", names), {
+      sender: "Bob§#ffffff] Alice",
+      text: "hi",
+    });
+  });
+
+  it("does not let players pose as someone else", () => {
+    assert.deepEqual(
+      parseChatLine("[Mallory§#ffffff] Admin§#ffffff] !op", names),
+      { sender: null, text: "[Mallory§#ffffff] Admin§#ffffff] !op" },
+    );
+    assert.equal(parseChatLine("[Ev§#ffffff] !help", names).sender, null);
+    assert.equal(parseChatLine("Eve joined", names).sender, null);
+  });
+});
+
+describe("CommandRouter", () => {
+  // A connection that is never started; replies are collected instead of
+  // being sent.
+  function router(): { router: CommandRouter; replies: string[] } {
+    const connection = new CubyzConnection({
+      host: "127.0.0.1",
+      port: 1,
+      name: "Bot",
+      logLevel: "silent",
+    });
+    const replies: string[] = [];
+    connection.queueChat = async (message) => {
+      replies.push(message);
+    };
+    return { router: new CommandRouter(connection), replies };
+  }
+
+  it("checks permissions before running a command", async () => {
+    const { router: commands, replies } = router();
+    let runs = 0;
+    commands.command({
+      name: "op",
+      permission: (sender) => sender === "Alice",
+      run: () => {
+        runs += 1;
+      },
+    });
+    assert.equal(await commands.dispatch("Alice", "!op"), true);
+    assert.equal(await commands.dispatch("Eve", "!op"), true);
+    assert.equal(runs, 1);
+    assert.deepEqual(replies, ["You are not allowed to use !op"]);
+  });
+
+  it("reports permission predicates that throw", async () => {
+    const { router: commands, replies } = router();
+    const failure = new Error("lookup failed");
+    commands.command({
+      name: "op",
+      permission: () => {
+        throw failure;
+      },
+      run: () => {},
+    });
+    const errors: unknown[] = [];
+    commands.on("commandError", (error, context) => {
+      errors.push(error);
+      assert.equal(context.sender, "Alice");
+    });
+    assert.equal(await commands.dispatch("Alice", "!op"), true);
+    assert.deepEqual(errors, [failure]);
+    assert.deepEqual(replies, ["!op failed"]);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CongestionController } from "../src/congestion.js";
+import { MTU } from "../src/constants.js";
+
+describe("CongestionController", () => {
+  it("limits bytes in flight to the window", () => {
+    const congestion = new CongestionController({ initialWindow: 2 * MTU });
+    assert.equal(congestion.window, 2 * MTU);
+    assert.ok(congestion.canSend(MTU));
+    congestion.onSent(MTU);
+    congestion.onSent(MTU);
+    assert.equal(congestion.bytesInFlight, 2 * MTU);
+    assert.equal(congestion.canSend(1), false);
+    congestion.onAcked(MTU, 50);
+    assert.equal(congestion.bytesInFlight, MTU);
+    assert.equal(congestion.window, 3 * MTU);
+    assert.equal(congestion.rtt.smoothed, 50);
+  });
+
+  it("always allows one packet when nothing is in flight", () => {
+    const congestion = new CongestionController();
+    assert.ok(congestion.canSend(10 * congestion.window));
+  });
+
+  it("collapses the window and backs off after a timeout", () => {
+    const congestion = new CongestionController({
+      initialWindow: 8 * MTU,
+      minWindow: 2 * MTU,
+      initialRto: 200,
+      maxBackoff: 2,
+    });
+    congestion.onTimeout(1000);
+    assert.equal(congestion.window, 2 * MTU);
+    assert.equal(congestion.backoff, 1);
+    assert.equal(congestion.resendTimeout, 400);
+    // Losses within one resend timeout count once.
+    congestion.onTimeout(1100);
+    assert.equal(congestion.backoff, 1);
+    congestion.onTimeout(2000);
+    congestion.onTimeout(3000);
+    assert.equal(congestion.backoff, 2);
+    assert.equal(congestion.resendTimeout, 800);
+    congestion.onAcked(MTU);
+    assert.equal(congestion.backoff, 0);
+  });
+
+  it("grows by slow start up to half the window before the loss", () => {
+    const congestion = new CongestionController({
+      initialWindow: 8 * MTU,
+      minWindow: 2 * MTU,
+    });
+    congestion.onTimeout(0);
+    congestion.onAcked(2 * MTU);
+    assert.equal(congestion.window, 4 * MTU);
+    // Then by one packet per window.
+    congestion.onAcked(4 * MTU);
+    assert.equal(congestion.window, 5 * MTU);
+  });
+
+  it("resets to its initial state", () => {
+    const congestion = new CongestionController({ initialWindow: 4 * MTU });
+    congestion.onSent(MTU);
+    congestion.onTimeout(0);
+    congestion.reset();
+    assert.equal(congestion.window, 4 * MTU);
+    assert.equal(congestion.bytesInFlight, 0);
+    assert.equal(congestion.backoff, 0);
+  });
+});
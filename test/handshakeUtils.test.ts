@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { describe, it } from "node:test";
+import { HANDSHAKE_STATE } from "../src/constants.js";
+import { buildHandshakePayload } from "../src/handshakeUtils.js";
+import { parseZon } from "../src/zon.js";
+
+describe("buildHandshakePayload", () => {
+  it("sends the user data with names as raw UTF-8", () => {
+    const payload = buildHandshakePayload("Bjørn 🧱", "0.1.0");
+    assert.equal(payload[0], HANDSHAKE_STATE.USER_DATA);
+    const zon = payload.subarray(1);
+    assert.ok(zon.includes(Buffer.from("Bjørn 🧱")));
+    assert.equal(zon.toString().includes("\\u"), false);
+    assert.deepEqual(parseZon(zon.toString()), {
+      version: "0.1.0",
+      name: "Bjørn 🧱",
+    });
+  });
+});
@@ -0,0 +1,351 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as delay } from "node:timers/promises";
+import { splitChatMessage } from "../src/chatFormat.js";
+import { chunkBlockIndex } from "../src/chunkParser.js";
+import {
+  CubyzConnection,
+  type CubyzConnectionOptions,
+} from "../src/connection.js";
+import { GAMEMODE } from "../src/connectionTypes.js";
+import { CHUNK_VOLUME, PROTOCOL } from "../src/constants.js";
+import { type MockClient, MockCubyzServer } from "../src/mockServer.js";
+
+describe("CubyzConnection against MockCubyzServer", () => {
+  let directory: string;
+  let server: MockCubyzServer;
+  let port: number;
+  const connections: CubyzConnection[] = [];
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "cubyz-test-"));
+    server = new MockCubyzServer({
+      logLevel: "silent",
+      serverData: { blockPalette: ["cubyz:air", "cubyz:stone"] },
+    });
+    port = await server.listen();
+  });
+
+  after(async () => {
+    for (const connection of connections) {
+      connection.close();
+    }
+    await server.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function connect(
+    options: Partial<CubyzConnectionOptions> = {},
+  ): Promise<CubyzConnection> {
+    const connection = new CubyzConnection({
+      host: "127.0.0.1",
+      port,
+      name: `Bot${connections.length}`,
+      identityFile: path.join(directory, "identity.txt"),
+      logLevel: "silent",
+      ...options,
+    });
+    connections.push(connection);
+    await connection.start({ waitForHandshake: true, timeout: 10_000 });
+    return connection;
+  }
+
+  it("completes the handshake", async () => {
+    const connection = await connect();
+    assert.equal(connection.getState(), "connected");
+    const serverData = connection.getServerData();
+    assert.equal(typeof serverData?.playerId, "number");
+    assert.equal(serverData?.worldName, "mock");
+    assert.equal(connection.getBlockRegistry().getId(1), "cubyz:stone");
+    assert.ok(
+      server.getClients().some((client) => client.name === connection.name),
+    );
+  });
+
+  it("exchanges chat messages", async () => {
+    const connection = await connect();
+    const received = new Promise<string>((resolve) => {
+      server.on("chat", (client, message) => {
+        if (client.name === connection.name) {
+          resolve(message);
+        }
+      });
+    });
+    connection.sendChat("hello server");
+    assert.equal(await received, "hello server");
+
+    const reply = connection.waitFor("chat", { timeout: 5000 });
+    server.pushChat("hello bot");
+    assert.deepEqual(await reply, ["hello bot"]);
+  });
+
+  it("sends long chat messages in order through the chat queue", async () => {
+    const connection = await connect();
+    const message = Array.from({ length: 300 }, (_, i) => `word${i}`).join(" ");
+    const parts = splitChatMessage(message);
+    assert.ok(parts.length > 1);
+    const received: string[] = [];
+    server.on("chat", (client, text) => {
+      if (client.name === connection.name) {
+        received.push(text);
+      }
+    });
+    assert.equal(
+      await connection.sendChatLong(message, { interval: 10 }),
+      parts.length,
+    );
+    // Resolved only once every part was delivered.
+    assert.deepEqual(received, parts);
+  });
+
+  it("applies block updates to the world", async () => {
+    const connection = await connect();
+    const update = connection.waitFor("blockUpdate", { timeout: 5000 });
+    server.pushBlockUpdates([{ position: { x: 1, y: 2, z: 3 }, block: 1 }]);
+    const [[block]] = await update;
+    assert.deepEqual(block.position, { x: 1, y: 2, z: 3 });
+    assert.deepEqual(block.resolved, { id: "cubyz:stone", data: 0 });
+    assert.equal(connection.getWorld().getBlock(1, 2, 3), 1);
+  });
+
+  it("follows server teleports", async () => {
+    const connection = await connect();
+    const corrected = connection.waitFor("positionCorrected", {
+      timeout: 5000,
+    });
+    server.pushGenericUpdate({
+      type: "teleport",
+      position: { x: 10, y: 20, z: 30 },
+    });
+    const [event] = await corrected;
+    assert.equal(event.reason, "teleport");
+    assert.deepEqual(event.position, { x: 10, y: 20, z: 30 });
+    assert.deepEqual(connection.getPlayerState().position, event.position);
+    assert.deepEqual(connection.getConfirmedPosition(), event.position);
+  });
+
+  it("flies instead of simulating physics in creative mode", async () => {
+    const connection = await connect({ physics: true });
+    assert.equal(connection.isFlying(), false);
+    const update = connection.waitFor("genericUpdate", { timeout: 5000 });
+    server.pushGenericUpdate({ type: "gamemode", gamemode: GAMEMODE.CREATIVE });
+    await update;
+    assert.equal(connection.isFlying(), true);
+    // No chunks are loaded, which would hold a simulated bot in place.
+    connection.setMovementInput({ move: { x: 0, y: 0, z: 5 } });
+    await delay(300);
+    const { position, velocity } = connection.getPlayerState();
+    assert.ok(position.z > 0.5);
+    assert.deepEqual(velocity, { x: 0, y: 0, z: 5 });
+  });
+
+  it("reports traffic statistics", async () => {
+    const connection = await connect({ statsInterval: 100 });
+    const [stats] = await connection.waitFor("stats", { timeout: 5000 });
+    assert.ok(stats.bytesSent > 0);
+    assert.ok(stats.bytesReceived > 0);
+    assert.ok(stats.datagramsReceived > 0);
+    assert.ok(stats.channels.secure.packetsAcked > 0);
+    assert.notEqual(connection.getStats().rtt, null);
+  });
+
+  it("waits for matching events and iterates over them", async () => {
+    const connection = await connect();
+    const match = connection.waitFor("chat", {
+      predicate: (message) => message.startsWith("b"),
+      timeout: 5000,
+    });
+    const iterator = connection.events("chat");
+    server.pushChat("a");
+    server.pushChat("b");
+    assert.deepEqual(await match, ["b"]);
+    assert.deepEqual((await iterator.next()).value, ["a"]);
+    assert.deepEqual((await iterator.next()).value, ["b"]);
+    await iterator.return?.();
+
+    await assert.rejects(connection.waitFor("chat", { timeout: 10 }), {
+      name: "WaitForTimeoutError",
+    });
+    const controller = new AbortController();
+    const aborted = connection.waitFor("chat", { signal: controller.signal });
+    controller.abort(new Error("stop"));
+    await assert.rejects(aborted, /stop/);
+  });
+
+  it("rejects chat queued after close", async () => {
+    const connection = await connect();
+    await connection.queueChat("still open");
+    connection.close();
+    await assert.rejects(connection.queueChat("too late"), {
+      name: "ConnectionClosedError",
+      reason: "closed",
+    });
+  });
+
+  it("rejects waits on an ended connection", async () => {
+    const connection = await connect();
+    connection.close();
+    await assert.rejects(connection.waitFor("chat"), {
+      name: "ConnectionClosedError",
+      reason: "closed",
+    });
+    const iterator = connection.events("chat");
+    assert.deepEqual(await iterator.next(), { done: true, value: undefined });
+  });
+
+  it("reconnects and moves back to the restored position", async () => {
+    const connection = await connect({
+      reconnect: { initialDelayMs: 20, jitter: 0 },
+    });
+    connection.setPosition(5, 6, 7);
+    connection.setRotation(90);
+    const client = server
+      .getClients()
+      .find(({ name }) => name === connection.name);
+    assert.ok(client);
+    const moved = new Promise<void>((resolve) => {
+      server.on("playerState", (sender, { position }) => {
+        if (sender !== client && sender.name === connection.name) {
+          if (position.x === 5 && position.y === 6 && position.z === 7) {
+            resolve();
+          }
+        }
+      });
+    });
+    const reconnecting = connection.waitFor("reconnecting", { timeout: 5000 });
+    const reconnected = connection.waitFor("reconnected", { timeout: 5000 });
+    server.kick(client);
+    assert.deepEqual(await reconnecting, [
+      { attempt: 1, delayMs: 20, reason: "server" },
+    ]);
+    assert.deepEqual(await reconnected, [{ attempt: 1 }]);
+    await moved;
+    assert.deepEqual(connection.getPlayerState().position, {
+      x: 5,
+      y: 6,
+      z: 7,
+    });
+    assert.equal(connection.getPlayerState().rotation.z, Math.PI / 2);
+    // The server placed the new session at the spawn and may still correct
+    // the move.
+    assert.deepEqual(connection.getConfirmedPosition(), { x: 0, y: 0, z: 0 });
+    const corrected = connection.waitFor("positionCorrected", {
+      timeout: 5000,
+    });
+    server.pushGenericUpdate({
+      type: "teleport",
+      position: { x: 1, y: 1, z: 1 },
+    });
+    const [event] = await corrected;
+    assert.deepEqual(event.previous, { x: 5, y: 6, z: 7 });
+    assert.deepEqual(connection.getPlayerState().position, {
+      x: 1,
+      y: 1,
+      z: 1,
+    });
+  });
+
+  it("backs off between failed reconnect attempts", async () => {
+    const connection = await connect({
+      reconnect: {
+        initialDelayMs: 20,
+        multiplier: 2,
+        jitter: 0,
+        maxAttempts: 3,
+      },
+    });
+    const kickNewClients = (client: MockClient) => {
+      setImmediate(() => server.kick(client));
+    };
+    server.on("clientConnected", kickNewClients);
+    try {
+      const delays: number[] = [];
+      connection.on("reconnecting", ({ delayMs }) => delays.push(delayMs));
+      const failed = connection.waitFor("reconnectFailed", { timeout: 5000 });
+      server.kick(
+        server.getClients().find(({ name }) => name === connection.name) ??
+          assert.fail("client not found"),
+      );
+      assert.deepEqual(await failed, [{ attempts: 3 }]);
+      assert.deepEqual(delays, [20, 40, 80]);
+      await assert.rejects(connection.waitFor("chat"), {
+        name: "ConnectionClosedError",
+        reason: "reconnectFailed",
+      });
+    } finally {
+      server.off("clientConnected", kickNewClients);
+    }
+  });
+
+  it("does not request chunks that are still outstanding", async () => {
+    let requested = 0;
+    const connection = new CubyzConnection({
+      host: "127.0.0.1",
+      port,
+      name: "ChunkBot",
+      identityFile: path.join(directory, "identity.txt"),
+      logLevel: "silent",
+      renderDistance: 1,
+    });
+    connections.push(connection);
+    server.on("protocol", (client, { protocolId, payload }) => {
+      if (client.name === "ChunkBot" && protocolId === PROTOCOL.CHUNK_REQUEST) {
+        requested += (payload.length - 14) / 4;
+      }
+    });
+    await connection.start({ waitForHandshake: true, timeout: 10_000 });
+    await delay(300);
+    assert.equal(requested, 7);
+    // The neighbouring center shares two chunks with the first request.
+    connection.setPosition(40, 0, 0);
+    await delay(300);
+    assert.equal(requested, 12);
+    connection.requestChunks();
+    await delay(200);
+    assert.equal(requested, 12);
+  });
+
+  it("raycasts and checks line of sight to entities", async () => {
+    const connection = await connect();
+    const blocks = new Uint32Array(CHUNK_VOLUME);
+    for (let y = 0; y < 32; y++) {
+      for (let z = 0; z < 32; z++) {
+        blocks[chunkBlockIndex(15, y, z)] = 1;
+      }
+    }
+    connection
+      .getWorld()
+      .setChunk({ position: { wx: 0, wy: 0, wz: 0, voxelSize: 1 }, blocks });
+    connection.setPosition(5.5, 5.5, 10.9);
+
+    const hit = connection.raycast(
+      { x: 5.5, y: 5.5, z: 11.6 },
+      { x: 1, y: 0, z: 0 },
+      20,
+    );
+    assert.equal(hit?.face, "negX");
+    assert.equal(hit?.block, 1);
+    assert.equal(hit?.name, "cubyz:stone");
+    assert.equal(
+      connection.raycast(
+        { x: 5.5, y: 5.5, z: 11.6 },
+        { x: -1, y: 0, z: 0 },
+        20,
+      ),
+      null,
+    );
+
+    const positions = connection.waitFor("entityPositions", { timeout: 5000 });
+    server.pushEntityPositions([
+      { id: 7, position: { x: 20.5, y: 5.5, z: 10.9 } },
+      { id: 8, position: { x: 10.5, y: 9.5, z: 10.9 } },
+    ]);
+    await positions;
+    assert.equal(connection.canSee(7), false);
+    assert.equal(connection.canSee(8), true);
+    assert.equal(connection.canSee(99), false);
+  });
+});
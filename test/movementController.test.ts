@@ -0,0 +1,200 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  CubyzConnection,
+  type CubyzConnectionOptions,
+} from "../src/connection.js";
+import { GAMEMODE, type Vector3 } from "../src/connectionTypes.js";
+import { MockCubyzServer } from "../src/mockServer.js";
+import {
+  directionFromRotation,
+  MovementController,
+  rotationTowards,
+} from "../src/movementController.js";
+
+function near(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `${actual} is not within ${tolerance} of ${expected}`,
+  );
+}
+
+function offset(position: Vector3, x: number, y: number, z = 0): Vector3 {
+  return { x: position.x + x, y: position.y + y, z: position.z + z };
+}
+
+describe("rotationTowards", () => {
+  it("agrees with directionFromRotation", () => {
+    const from = { x: 1, y: 2, z: 3 };
+    const to = { x: 4, y: -2, z: 8 };
+    const { yaw, pitch } = rotationTowards(from, to);
+    const direction = directionFromRotation({
+      x: (pitch * Math.PI) / 180,
+      y: 0,
+      z: (yaw * Math.PI) / 180,
+    });
+    const length = Math.hypot(3, -4, 5);
+    near(direction.x, 3 / length);
+    near(direction.y, -4 / length);
+    near(direction.z, 5 / length);
+  });
+});
+
+describe("MovementController against MockCubyzServer", () => {
+  let directory: string;
+  let server: MockCubyzServer;
+  let port: number;
+  const connections: CubyzConnection[] = [];
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "cubyz-test-"));
+    server = new MockCubyzServer({ logLevel: "silent" });
+    port = await server.listen();
+  });
+
+  after(async () => {
+    for (const connection of connections) {
+      connection.close();
+    }
+    await server.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function connect(
+    options: Partial<CubyzConnectionOptions> = {},
+  ): Promise<CubyzConnection> {
+    const connection = new CubyzConnection({
+      host: "127.0.0.1",
+      port,
+      name: `Walker${connections.length}`,
+      identityFile: path.join(directory, "identity.txt"),
+      logLevel: "silent",
+      ...options,
+    });
+    connections.push(connection);
+    await connection.start({ waitForHandshake: true, timeout: 10_000 });
+    return connection;
+  }
+
+  it("walks to the target", async () => {
+    const connection = await connect();
+    const movement = new MovementController(connection);
+    const start = connection.getPlayerState().position;
+    const target = offset(start, 1, -1, 0.5);
+    await movement.walkTo(target, { speed: 10, tolerance: 0.1 });
+    const { position } = connection.getPlayerState();
+    assert.ok(Math.hypot(target.x - position.x, target.y - position.y) <= 0.1);
+    assert.equal(movement.busy, false);
+    movement.dispose();
+  });
+
+  it("fails as stuck without progress", async () => {
+    // With physics, unloaded blocks are solid: the bot cannot move at all.
+    const connection = await connect({ physics: true });
+    const movement = new MovementController(connection, { stuckTimeout: 200 });
+    const start = connection.getPlayerState().position;
+    await assert.rejects(movement.walkTo(offset(start, 10, 0)), {
+      name: "MovementError",
+      reason: "stuck",
+    });
+    movement.dispose();
+  });
+
+  it("fails when interrupted, stopped or timed out", async () => {
+    const connection = await connect();
+    const movement = new MovementController(connection);
+    const start = connection.getPlayerState().position;
+    const first = movement.walkTo(offset(start, 100, 0), { speed: 1 });
+    const second = movement.walkTo(offset(start, 0, 100), { speed: 1 });
+    await assert.rejects(first, { reason: "interrupted" });
+    assert.equal(movement.busy, true);
+    movement.stop();
+    await assert.rejects(second, { reason: "stopped" });
+    assert.equal(movement.busy, false);
+    await assert.rejects(
+      movement.walkTo(offset(start, 100, 0), { speed: 1, timeout: 100 }),
+      { reason: "timeout" },
+    );
+    movement.dispose();
+  });
+
+  it("fails when the server corrects the position", async () => {
+    const connection = await connect();
+    const movement = new MovementController(connection);
+    const start = connection.getPlayerState().position;
+    const walk = movement.walkTo(offset(start, 100, 0), { speed: 1 });
+    server.pushGenericUpdate({
+      type: "teleport",
+      position: { x: -5, y: -5, z: 0 },
+    });
+    await assert.rejects(walk, { reason: "corrected" });
+    movement.dispose();
+  });
+
+  it("follows abort signals", async () => {
+    const connection = await connect();
+    const movement = new MovementController(connection);
+    const start = connection.getPlayerState().position;
+    const controller = new AbortController();
+    const walk = movement.walkTo(offset(start, 100, 0), {
+      speed: 1,
+      signal: controller.signal,
+    });
+    controller.abort(new Error("cancelled"));
+    await assert.rejects(walk, /cancelled/);
+    assert.equal(movement.busy, false);
+    await assert.rejects(
+      movement.strafe("left", 1000, { signal: controller.signal }),
+      /cancelled/,
+    );
+    movement.dispose();
+  });
+
+  it("does not jump while flying in creative mode", async () => {
+    const connection = await connect({ physics: true });
+    const movement = new MovementController(connection);
+    // Without loaded chunks the bot never stands on the ground, so the jump
+    // waits until the gamemode changes.
+    const pending = movement.jump();
+    const update = connection.waitFor("genericUpdate", { timeout: 5000 });
+    server.pushGenericUpdate({ type: "gamemode", gamemode: GAMEMODE.CREATIVE });
+    await update;
+    await assert.rejects(pending, { reason: "noPhysics" });
+    assert.equal(connection.isFlying(), true);
+    await assert.rejects(movement.jump(), { reason: "noPhysics" });
+    assert.equal(movement.busy, false);
+    movement.dispose();
+  });
+
+  it("strafes relative to the heading", async () => {
+    const connection = await connect();
+    const movement = new MovementController(connection);
+    connection.setRotation(0);
+    const start = connection.getPlayerState().position;
+    // Yaw 0 faces +y, so right is +x.
+    await movement.strafe("right", 300, { speed: 5 });
+    const { position } = connection.getPlayerState();
+    assert.ok(position.x - start.x > 0.5);
+    near(position.y, start.y);
+    near(position.z, start.z);
+    movement.dispose();
+  });
+
+  it("looks at targets from the eyes", async () => {
+    const connection = await connect();
+    const movement = new MovementController(connection);
+    const { position } = connection.getPlayerState();
+    movement.lookAt(offset(position, 3, 0, 0.7));
+    let { rotation } = connection.getPlayerState();
+    near(rotation.z, Math.PI / 2);
+    near(rotation.x, 0);
+    movement.lookAt(offset(position, 0, 0, -10));
+    ({ rotation } = connection.getPlayerState());
+    near(rotation.x, Math.PI / 2);
+    await assert.rejects(movement.jump(), { reason: "noPhysics" });
+    movement.dispose();
+  });
+});
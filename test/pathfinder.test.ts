@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { setTimeout as delay } from "node:timers/promises";
+import { chunkBlockIndex } from "../src/chunkParser.js";
+import { CubyzConnection } from "../src/connection.js";
+import { CHUNK_VOLUME } from "../src/constants.js";
+import { MovementController } from "../src/movementController.js";
+import { Pathfinder } from "../src/pathfinder.js";
+
+type Cell = [number, number, number];
+
+// One chunk with a floor at z < 10 and the given extra solid and air blocks.
+function world(solid: Cell[] = [], air: Cell[] = []): CubyzConnection {
+  const connection = new CubyzConnection({
+    host: "127.0.0.1",
+    port: 1,
+    name: "Bot",
+    logLevel: "silent",
+  });
+  const blocks = new Uint32Array(CHUNK_VOLUME);
+  for (let x = 0; x < 32; x++) {
+    for (let y = 0; y < 32; y++) {
+      for (let z = 0; z < 10; z++) {
+        blocks[chunkBlockIndex(x, y, z)] = 1;
+      }
+    }
+  }
+  for (const [x, y, z] of solid) {
+    blocks[chunkBlockIndex(x, y, z)] = 1;
+  }
+  for (const [x, y, z] of air) {
+    blocks[chunkBlockIndex(x, y, z)] = 0;
+  }
+  connection
+    .getWorld()
+    .setChunk({ position: { wx: 0, wy: 0, wz: 0, voxelSize: 1 }, blocks });
+  return connection;
+}
+
+function wall(x: number, height: number, gapY?: number): Cell[] {
+  const cells: Cell[] = [];
+  for (let y = 0; y < 32; y++) {
+    for (let z = 10; z < 10 + height; z++) {
+      if (y !== gapY) {
+        cells.push([x, y, z]);
+      }
+    }
+  }
+  return cells;
+}
+
+const at = (x: number, y: number, z = 10) => ({
+  x: x + 0.5,
+  y: y + 0.5,
+  z: z + 0.9,
+});
+
+function feet(path: { x: number; y: number; z: number }[]): string[] {
+  return path.map(
+    ({ x, y, z }) => `${x - 0.5},${y - 0.5},${Math.round(z - 0.9)}`,
+  );
+}
+
+describe("Pathfinder", () => {
+  it("finds straight and diagonal routes on flat ground", () => {
+    const pathfinder = new Pathfinder(world());
+    const { status, path } = pathfinder.findPath(at(2, 2), at(5, 5));
+    assert.equal(status, "found");
+    assert.deepEqual(feet(path), ["2,2,10", "3,3,10", "4,4,10", "5,5,10"]);
+    const straight = new Pathfinder(world(), { diagonal: false });
+    assert.equal(straight.findPath(at(2, 2), at(5, 5)).path.length, 7);
+  });
+
+  it("goes through the gap in a wall", () => {
+    const pathfinder = new Pathfinder(world(wall(10, 3, 20)));
+    const { status, path } = pathfinder.findPath(at(5, 5), at(15, 5));
+    assert.equal(status, "found");
+    assert.ok(feet(path).includes("10,20,10"));
+  });
+
+  it("jumps onto ledges up to maxJump and drops up to maxFall", () => {
+    const step = wall(10, 1);
+    const pathfinder = new Pathfinder(world(step));
+    const up = pathfinder.findPath(at(5, 5), at(10, 5, 11));
+    assert.equal(up.status, "found");
+    const noJump = new Pathfinder(world(step), { maxJump: 0 });
+    assert.equal(
+      noJump.findPath(at(5, 5), at(10, 5, 11)).status,
+      "unreachable",
+    );
+
+    const pit: Cell[] = [];
+    for (let y = 0; y < 32; y++) {
+      for (let z = 6; z < 10; z++) {
+        pit.push([10, y, z]);
+      }
+    }
+    const deep = new Pathfinder(world([], pit), { maxFall: 3 });
+    assert.equal(deep.findPath(at(5, 5), at(10, 5, 6)).status, "unreachable");
+    const deeper = new Pathfinder(world([], pit), { maxFall: 4 });
+    assert.equal(deeper.findPath(at(5, 5), at(10, 5, 6)).status, "found");
+  });
+
+  it("needs headroom for the bot's height", () => {
+    const ceiling: Cell[] = [];
+    for (let y = 0; y < 32; y++) {
+      ceiling.push([10, y, 11]);
+    }
+    const pathfinder = new Pathfinder(world(ceiling));
+    assert.equal(
+      pathfinder.findPath(at(5, 5), at(15, 5)).status,
+      "unreachable",
+    );
+  });
+
+  it("leads towards unreachable goals and honours the node budget", () => {
+    const pathfinder = new Pathfinder(world(wall(10, 3)));
+    const blocked = pathfinder.findPath(at(5, 5), at(15, 5));
+    assert.equal(blocked.status, "unreachable");
+    assert.deepEqual(feet(blocked.path).at(-1), "9,5,10");
+
+    const limited = pathfinder.findPath(at(5, 5), at(8, 5), { maxNodes: 1 });
+    assert.equal(limited.status, "budgetExceeded");
+    assert.equal(limited.expanded, 1);
+  });
+
+  it("plans again when the headroom of a jump is filled", async () => {
+    const connection = world(wall(10, 1));
+    const pathfinder = new Pathfinder(connection);
+    const { path } = pathfinder.findPath(at(5, 5), at(10, 5, 11));
+    assert.deepEqual(feet(path).slice(-2), ["9,5,10", "10,5,11"]);
+    // The bot never moves here, so only the block update ends the walk.
+    const movement = new MovementController(connection, {
+      stuckTimeout: 60_000,
+    });
+    connection.setPosition(5.5, 5.5, 10.9);
+    const walk = pathfinder.followPath(movement, at(10, 5, 11), {
+      maxReplans: 0,
+    });
+    connection.getWorld().applyBlockUpdates([
+      {
+        position: { x: 9, y: 5, z: 12 },
+        block: 1,
+        blockEntityData: Buffer.alloc(0),
+      },
+    ]);
+    await assert.rejects(walk, {
+      name: "PathfinderError",
+      reason: "replanLimit",
+    });
+    movement.stop();
+  });
+
+  it("ignores changes that keep the route open", async () => {
+    const connection = world(wall(10, 1));
+    const pathfinder = new Pathfinder(connection);
+    const movement = new MovementController(connection, {
+      stuckTimeout: 60_000,
+    });
+    connection.setPosition(5.5, 5.5, 10.9);
+    let settled = false;
+    const walk = pathfinder
+      .followPath(movement, at(10, 5, 11), { maxReplans: 0 })
+      .finally(() => {
+        settled = true;
+      });
+    const update = (x: number, y: number, z: number, block: number) => ({
+      position: { x, y, z },
+      block,
+      blockEntityData: Buffer.alloc(0),
+    });
+    const terrain = connection.getWorld();
+    const [chunk] = terrain.getChunks();
+    terrain.setChunk({ ...chunk, blocks: chunk.blocks.slice() });
+    terrain.applyBlockUpdates([
+      update(7, 5, 10, 0),
+      // Another solid floor block.
+      update(7, 5, 9, 2),
+    ]);
+    await delay(100);
+    assert.equal(settled, false);
+
+    terrain.applyBlockUpdates([update(7, 5, 9, 0)]);
+    await assert.rejects(walk, {
+      name: "PathfinderError",
+      reason: "replanLimit",
+    });
+    movement.stop();
+  });
+
+  it("never walks into unloaded chunks", () => {
+    const pathfinder = new Pathfinder(world());
+    const { status, path } = pathfinder.findPath(at(30, 5), at(40, 5));
+    assert.equal(status, "unreachable");
+    assert.deepEqual(feet(path).at(-1), "31,5,10");
+  });
+});
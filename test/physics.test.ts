@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type PhysicsState,
+  PlayerPhysics,
+  type SolidBlockCheck,
+} from "../src/physics.js";
+
+// A floor at z < 10 and a wall at x = 5, 3 blocks high.
+const terrain: SolidBlockCheck = (x, _y, z) => z < 10 || (x === 5 && z < 13);
+
+function standing(x: number, y: number): PhysicsState {
+  return {
+    position: { x, y, z: 10.9 },
+    velocity: { x: 0, y: 0, z: 0 },
+    onGround: true,
+  };
+}
+
+function run(
+  physics: PlayerPhysics,
+  state: PhysicsState,
+  input: Parameters<PlayerPhysics["step"]>[1],
+  seconds: number,
+  isSolid = terrain,
+): PhysicsState {
+  let current = state;
+  for (let t = 0; t < seconds; t += 0.1) {
+    current = physics.step(current, input, 0.1, isSolid);
+  }
+  return current;
+}
+
+describe("PlayerPhysics", () => {
+  const physics = new PlayerPhysics();
+
+  it("falls onto the ground and stays there", () => {
+    const landed = run(
+      physics,
+      {
+        position: { x: 0.5, y: 0.5, z: 20 },
+        velocity: { x: 0, y: 0, z: 0 },
+        onGround: false,
+      },
+      {},
+      3,
+    );
+    assert.ok(Math.abs(landed.position.z - 10.9) < 1e-6);
+    assert.equal(landed.velocity.z, 0);
+    assert.equal(landed.onGround, true);
+  });
+
+  it("walks at the input velocity and stops at walls", () => {
+    const state = run(physics, standing(0.5, 0.5), { move: { x: 4, y: 0 } }, 3);
+    assert.ok(Math.abs(state.position.x - (5 - physics.halfWidth)) < 1e-6);
+    assert.equal(state.velocity.x, 0);
+    assert.ok(Math.abs(state.position.y - 0.5) < 1e-9);
+  });
+
+  it("jumps high enough to clear a block", () => {
+    let state = physics.step(standing(0.5, 0.5), { jump: true }, 0.05, terrain);
+    let peak = state.position.z;
+    for (let i = 0; i < 40; i++) {
+      state = physics.step(state, {}, 0.025, terrain);
+      peak = Math.max(peak, state.position.z);
+    }
+    // High enough to clear a block, never above the jump height.
+    assert.ok(peak - 10.9 > 1);
+    assert.ok(peak - 10.9 <= physics.jumpHeight);
+    assert.equal(state.onGround, true);
+  });
+
+  it("steps up ledges up to the step height without jumping", () => {
+    const ledge: SolidBlockCheck = (x, _y, z) => z < 10 || (x >= 3 && z < 11);
+    const input = { move: { x: 4, y: 0 } };
+    const blocked = run(physics, standing(0.5, 0.5), input, 2, ledge);
+    assert.ok(blocked.position.x < 3);
+    const climber = new PlayerPhysics({ stepHeight: 1.1 });
+    const climbed = run(climber, standing(0.5, 0.5), input, 2, ledge);
+    assert.ok(climbed.position.x > 3);
+    assert.ok(Math.abs(climbed.position.z - 11.9) < 1e-6);
+  });
+
+  it("is deterministic and does not tunnel", () => {
+    const fast = {
+      position: { x: 0.5, y: 0.5, z: 10.9 },
+      velocity: { x: 500, y: 0, z: 0 },
+      onGround: false,
+    };
+    const a = physics.step(fast, {}, 0.5, terrain);
+    const b = physics.step(fast, {}, 0.5, terrain);
+    assert.deepEqual(a, b);
+    assert.ok(a.position.x <= 5 - physics.halfWidth + 1e-9);
+    assert.deepEqual(fast.position, { x: 0.5, y: 0.5, z: 10.9 });
+  });
+
+  it("reports collisions and validates its dimensions", () => {
+    assert.ok(physics.collides({ x: 0.5, y: 0.5, z: 10.5 }, terrain));
+    assert.equal(physics.collides({ x: 0.5, y: 0.5, z: 10.9 }, terrain), false);
+    assert.throws(() => new PlayerPhysics({ halfWidth: 0 }), RangeError);
+  });
+});
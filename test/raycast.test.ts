@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { SolidBlockCheck } from "../src/physics.js";
+import { BLOCK_FACE_NORMALS, raycastBlocks } from "../src/raycast.js";
+
+// A floor at z < 10 and a wall at x = 15.
+const terrain: SolidBlockCheck = (x, _y, z) => z < 10 || x === 15;
+
+describe("raycastBlocks", () => {
+  const eye = { x: 5.5, y: 5.5, z: 11.6 };
+
+  it("hits the first solid block on each axis", () => {
+    const ahead = raycastBlocks(eye, { x: 1, y: 0, z: 0 }, 20, terrain);
+    assert.deepEqual(ahead?.position, { x: 15, y: 5, z: 11 });
+    assert.equal(ahead?.face, "negX");
+    assert.equal(ahead?.distance, 9.5);
+    assert.deepEqual(ahead?.point, { x: 15, y: 5.5, z: 11.6 });
+
+    const down = raycastBlocks(eye, { x: 0, y: 0, z: -2 }, 5, terrain);
+    assert.deepEqual(down?.position, { x: 5, y: 5, z: 9 });
+    assert.equal(down?.face, "up");
+    assert.ok(Math.abs((down?.distance ?? 0) - 1.6) < 1e-9);
+  });
+
+  it("walks diagonal rays block by block", () => {
+    const hit = raycastBlocks(eye, { x: 1, y: 1, z: -0.3 }, 20, terrain);
+    assert.ok(hit);
+    const normal = BLOCK_FACE_NORMALS[hit.face];
+    // The block in front of the hit face is free.
+    assert.equal(
+      terrain(
+        hit.position.x + normal.x,
+        hit.position.y + normal.y,
+        hit.position.z + normal.z,
+      ),
+      false,
+    );
+    assert.ok(terrain(hit.position.x, hit.position.y, hit.position.z));
+  });
+
+  it("returns null beyond the maximum distance", () => {
+    assert.equal(raycastBlocks(eye, { x: 1, y: 0, z: 0 }, 9, terrain), null);
+    assert.equal(raycastBlocks(eye, { x: 0, y: 0, z: 1 }, 50, terrain), null);
+  });
+
+  it("skips the block containing the origin", () => {
+    const inside = { x: 15.5, y: 5.5, z: 11.5 };
+    const hit = raycastBlocks(inside, { x: -1, y: 0, z: 0 }, 20, terrain);
+    assert.equal(hit, null);
+    assert.equal(
+      raycastBlocks(inside, { x: 0, y: 0, z: -1 }, 5, terrain)?.face,
+      "up",
+    );
+  });
+
+  it("rejects zero and non-finite directions", () => {
+    assert.throws(
+      () => raycastBlocks(eye, { x: 0, y: 0, z: 0 }, 5, terrain),
+      RangeError,
+    );
+    assert.throws(
+      () => raycastBlocks(eye, { x: Number.NaN, y: 0, z: 0 }, 5, terrain),
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { describe, it } from "node:test";
+import { AssetTree } from "../src/assets.js";
+import {
+  BlockRegistry,
+  ItemRegistry,
+  paletteFromZon,
+} from "../src/registry.js";
+
+describe("paletteFromZon", () => {
+  it("reads palettes sent as lists or as ID maps", () => {
+    assert.deepEqual(paletteFromZon(["cubyz:air", 5, "cubyz:stone"]), [
+      "cubyz:air",
+      "",
+      "cubyz:stone",
+    ]);
+    assert.deepEqual(paletteFromZon({ "cubyz:stone": 2, "cubyz:air": 0 }), [
+      "cubyz:air",
+      "",
+      "cubyz:stone",
+    ]);
+    assert.deepEqual(paletteFromZon("nope"), []);
+  });
+});
+
+describe("BlockRegistry", () => {
+  const blocks = new BlockRegistry(["cubyz:air", "cubyz:stone", ""]);
+
+  it("maps palette indices to IDs and back", () => {
+    assert.equal(blocks.size, 3);
+    assert.equal(blocks.getId(1), "cubyz:stone");
+    assert.equal(blocks.getId(2), undefined);
+    assert.equal(blocks.getIndex("cubyz:stone"), 1);
+    assert.deepEqual(blocks.getIds(), ["cubyz:air", "cubyz:stone"]);
+  });
+
+  it("splits block values into type and data", () => {
+    assert.deepEqual(blocks.resolve(0x00050001), {
+      id: "cubyz:stone",
+      data: 5,
+    });
+    assert.equal(blocks.resolve(7), undefined);
+    assert.equal(blocks.encode("cubyz:stone", 5), 0x00050001);
+    assert.equal(blocks.encode("cubyz:stone", 0xffff), 0xffff0001);
+    assert.equal(blocks.encode("cubyz:missing"), undefined);
+  });
+
+  it("looks definitions up in the assets", () => {
+    const assets = new AssetTree(
+      new Map([
+        ["cubyz/items/stick.zig.zon", Buffer.from("{ .stackSize = 64 }")],
+      ]),
+      "hash",
+    );
+    const items = new ItemRegistry(["cubyz:stick"], assets);
+    assert.deepEqual(items.getDefinition("cubyz:stick"), { stackSize: 64 });
+    assert.equal(blocks.getDefinition("cubyz:stone"), undefined);
+  });
+
+  it("decides collision from the collide field", () => {
+    const assets = new AssetTree(
+      new Map([
+        ["cubyz/blocks/leaves.zig.zon", Buffer.from("{ .collide = false }")],
+        ["cubyz/blocks/glass.zig.zon", Buffer.from("{ .collide = true }")],
+        ["cubyz/blocks/stone.zig.zon", Buffer.from("{ .hardness = 1 }")],
+      ]),
+      "hash",
+    );
+    const withAssets = new BlockRegistry(
+      ["cubyz:air", "cubyz:leaves", "cubyz:glass", "cubyz:stone"],
+      assets,
+    );
+    assert.equal(withAssets.isSolid(1), false);
+    assert.equal(withAssets.isSolid(0x00030002), true);
+    assert.equal(withAssets.isSolid(3), true);
+    assert.equal(withAssets.isSolid(0), false);
+  });
+
+  it("treats everything but air as solid without a definition", () => {
+    assert.equal(blocks.isSolid(0), false);
+    assert.equal(blocks.isSolid(1), true);
+    // Types outside the palette: only type 0 is assumed to be air.
+    assert.equal(blocks.isSolid(7), true);
+    assert.equal(new BlockRegistry([]).isSolid(0), false);
+  });
+});
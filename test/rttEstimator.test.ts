@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RttEstimator } from "../src/rttEstimator.js";
+
+describe("RttEstimator", () => {
+  it("uses the initial timeout until the first sample", () => {
+    const rtt = new RttEstimator({ initialRto: 500 });
+    assert.equal(rtt.rto, 500);
+    assert.equal(rtt.smoothed, null);
+    assert.equal(rtt.variance, null);
+    assert.equal(rtt.latest, null);
+    assert.equal(new RttEstimator({ initialRto: 10, minRto: 50 }).rto, 50);
+  });
+
+  it("takes the first sample as is", () => {
+    const rtt = new RttEstimator();
+    rtt.addSample(200);
+    assert.equal(rtt.smoothed, 200);
+    assert.equal(rtt.variance, 100);
+    assert.equal(rtt.rto, 600);
+    assert.equal(rtt.samples, 1);
+  });
+
+  it("smooths later samples as in RFC 6298", () => {
+    const rtt = new RttEstimator();
+    rtt.addSample(200);
+    rtt.addSample(100);
+    assert.equal(rtt.smoothed, 187.5);
+    assert.equal(rtt.variance, 100);
+    assert.equal(rtt.rto, 587.5);
+    assert.equal(rtt.latest, 100);
+    assert.equal(rtt.samples, 2);
+    rtt.addSample(-5);
+    assert.equal(rtt.latest, 0);
+  });
+
+  it("clamps the timeout and resets", () => {
+    const rtt = new RttEstimator({ minRto: 100, maxRto: 1000 });
+    rtt.addSample(1);
+    assert.equal(rtt.rto, 100);
+    rtt.addSample(5000);
+    assert.equal(rtt.rto, 1000);
+    rtt.reset();
+    assert.equal(rtt.samples, 0);
+    assert.equal(rtt.smoothed, null);
+  });
+});
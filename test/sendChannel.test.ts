@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { describe, it } from "node:test";
+import { encodeVarInt } from "../src/binary.js";
+import { CongestionController } from "../src/congestion.js";
+import { CHANNEL, MTU, RESEND_TIMEOUT_MS } from "../src/constants.js";
+import { SendChannel } from "../src/sendChannel.js";
+
+function framed(protocolId: number, payload: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from([protocolId]),
+    encodeVarInt(payload.length),
+    payload,
+  ]);
+}
+
+// Take every packet the channel is willing to send right now.
+function drain(channel: SendChannel, now = 0) {
+  const packets = [];
+  for (
+    let packet = channel.getPacket(now);
+    packet !== null;
+    packet = channel.getPacket(now)
+  ) {
+    packets.push(packet);
+  }
+  return packets;
+}
+
+describe("SendChannel", () => {
+  it("packs small messages into one packet", () => {
+    const channel = new SendChannel(CHANNEL.LOSSY, 100);
+    channel.queue(1, Buffer.from("ab"));
+    channel.queue(2, Buffer.from("cde"));
+    const [packet, ...rest] = drain(channel);
+    assert.equal(rest.length, 0);
+    assert.equal(packet.start, 100);
+    assert.equal(packet.resend, false);
+    assert.deepEqual(
+      packet.payload,
+      Buffer.concat([
+        framed(1, Buffer.from("ab")),
+        framed(2, Buffer.from("cde")),
+      ]),
+    );
+  });
+
+  it("splits large messages across sequenced packets", () => {
+    const channel = new SendChannel(CHANNEL.SLOW, -10);
+    const payload = Buffer.alloc(3 * MTU, 7);
+    channel.queue(3, payload);
+    const packets = drain(channel);
+    assert.equal(packets.length, 4);
+    let next = -10;
+    for (const packet of packets) {
+      assert.equal(packet.start, next);
+      assert.ok(packet.payload.length <= MTU - 5);
+      next += packet.payload.length;
+    }
+    assert.deepEqual(
+      Buffer.concat(packets.map((packet) => packet.payload)),
+      framed(3, payload),
+    );
+    assert.equal(channel.getStats().packetsSent, 4);
+  });
+
+  it("reports delivery once every packet of a message is acked", () => {
+    const channel = new SendChannel(CHANNEL.SLOW, 0);
+    const delivered: string[] = [];
+    channel.queue(1, Buffer.alloc(MTU), (ok) => delivered.push(`big ${ok}`));
+    channel.queue(1, Buffer.from("x"), (ok) => delivered.push(`small ${ok}`));
+    const [first, second] = drain(channel);
+    channel.handleAck(second.start);
+    assert.deepEqual(delivered, []);
+    channel.handleAck(first.start);
+    assert.deepEqual(delivered, ["big true", "small true"]);
+    assert.equal(channel.hasWork(), false);
+    assert.equal(channel.getStats().packetsAcked, 2);
+  });
+
+  it("resends unacknowledged packets after the timeout", () => {
+    const channel = new SendChannel(CHANNEL.LOSSY, 0);
+    channel.queue(1, Buffer.from("hi"));
+    const [packet] = drain(channel, 1000);
+    assert.equal(channel.getPacket(1000 + RESEND_TIMEOUT_MS - 1), null);
+    const resent = channel.getPacket(1000 + RESEND_TIMEOUT_MS);
+    assert.deepEqual(resent, { ...packet, resend: true });
+    assert.equal(channel.getStats().resends, 1);
+  });
+
+  it("fails pending deliveries when abandoned", () => {
+    const channel = new SendChannel(CHANNEL.LOSSY, 0);
+    const delivered: boolean[] = [];
+    channel.queue(1, Buffer.from("sent"), (ok) => delivered.push(ok));
+    drain(channel);
+    channel.queue(1, Buffer.from("queued"), (ok) => delivered.push(ok));
+    channel.abandon();
+    assert.deepEqual(delivered, [false, false]);
+    assert.equal(channel.hasWork(), false);
+    assert.equal(channel.getPacket(10_000), null);
+  });
+
+  it("feeds the congestion controller", () => {
+    const congestion = new CongestionController({
+      initialWindow: MTU,
+      minWindow: MTU,
+      initialRto: 200,
+    });
+    const channel = new SendChannel(CHANNEL.SLOW, 0, congestion);
+    channel.queue(1, Buffer.alloc(2 * MTU));
+    const [first, ...held] = drain(channel, 0);
+    // The window holds one packet.
+    assert.equal(held.length, 0);
+    assert.equal(congestion.bytesInFlight, first.payload.length);
+
+    channel.handleAck(first.start, 10, 50);
+    assert.equal(congestion.rtt.latest, 40);
+    const [second] = drain(channel, 50);
+    assert.ok(second);
+    const resent = channel.getPacket(50 + congestion.resendTimeout);
+    assert.equal(resent?.resend, true);
+    assert.equal(congestion.backoff, 1);
+    // Karn's algorithm: the ack of a resent packet is no RTT sample.
+    channel.handleAck(second.start, 0, 2000);
+    assert.equal(congestion.rtt.samples, 1);
+
+    channel.queue(1, Buffer.from("x"));
+    drain(channel, 2000);
+    channel.abandon();
+    assert.equal(congestion.bytesInFlight, 0);
+  });
+});
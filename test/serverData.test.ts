@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { GAMEMODE } from "../src/connectionTypes.js";
+import { parseServerData } from "../src/serverData.js";
+import { parseZon } from "../src/zon.js";
+
+describe("parseServerData", () => {
+  it("decodes known fields and keeps the rest", () => {
+    const data = parseServerData(
+      parseZon(
+        '.{ .player_id = 3, .spawn = .{ 1, 2, 3 }, .gamemode = "creative", .worldName = "w", .blockPalette = .{ "cubyz:air" }, .custom = 1 }',
+      ),
+    );
+    assert.equal(data.playerId, 3);
+    assert.deepEqual(data.spawn, { x: 1, y: 2, z: 3 });
+    assert.equal(data.gamemode, GAMEMODE.CREATIVE);
+    assert.equal(data.worldName, "w");
+    assert.deepEqual(data.palettes, { block: ["cubyz:air"] });
+    assert.deepEqual(data.extra, { custom: 1 });
+    assert.deepEqual(data.issues, []);
+  });
+
+  it("accepts u64 seeds above 2^53", () => {
+    assert.equal(parseServerData(parseZon(".{ .seed = 42 }")).seed, 42);
+    const data = parseServerData(parseZon(".{ .seed = 18446744073709551557 }"));
+    assert.equal(data.seed, 18446744073709551557n);
+    assert.deepEqual(data.issues, []);
+  });
+
+  it("reports fields of the wrong shape", () => {
+    const data = parseServerData(parseZon('.{ .seed = "x" }'));
+    assert.equal(data.seed, null);
+    assert.deepEqual(
+      data.issues.map((issue) => issue.path),
+      [["seed"]],
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { CubyzConnection } from "../src/connection.js";
+import type {
+  AuthFailedEvent,
+  SignaturePolicy,
+} from "../src/connectionTypes.js";
+import type { SignatureResponse } from "../src/handshakeUtils.js";
+import { MockCubyzServer } from "../src/mockServer.js";
+
+describe("signature policy", () => {
+  let directory: string;
+  const servers: MockCubyzServer[] = [];
+  const connections: CubyzConnection[] = [];
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "cubyz-test-"));
+  });
+
+  after(async () => {
+    for (const connection of connections) {
+      connection.close();
+    }
+    for (const server of servers) {
+      await server.close();
+    }
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  // Connect to a server requesting `algorithms` and resolve with the
+  // handshake outcome.
+  async function handshake(
+    algorithms: string[],
+    signaturePolicy?: SignaturePolicy,
+  ): Promise<{
+    completed: boolean;
+    authFailed: AuthFailedEvent | null;
+    response: SignatureResponse | null;
+  }> {
+    const server = new MockCubyzServer({
+      logLevel: "silent",
+      signatureAlgorithms: algorithms,
+    });
+    servers.push(server);
+    const port = await server.listen();
+    let response: SignatureResponse | null = null;
+    server.on("signatureResponse", (_client, signatures) => {
+      response = signatures;
+    });
+    const connection = new CubyzConnection({
+      host: "127.0.0.1",
+      port,
+      name: "Signer",
+      identityFile: path.join(directory, "identity.txt"),
+      logLevel: "silent",
+      signaturePolicy,
+    });
+    connections.push(connection);
+    let authFailed: AuthFailedEvent | null = null;
+    connection.on("authFailed", (event) => {
+      authFailed = event;
+    });
+    const outcome = Promise.race([
+      once(connection, "handshakeComplete").then(() => true),
+      once(connection, "disconnect").then(() => false),
+    ]);
+    await connection.start();
+    return { completed: await outcome, authFailed, response };
+  }
+
+  it("signs with every requested algorithm by default", async () => {
+    const { completed, authFailed, response } = await handshake([
+      "ed25519",
+      "mldsa44",
+    ]);
+    assert.equal(completed, true);
+    assert.equal(authFailed, null);
+    assert.deepEqual(
+      response?.signatures.map(({ algorithm }) => algorithm),
+      ["ed25519", "mldsa44"],
+    );
+  });
+
+  it("disconnects when an algorithm is not allowed", async () => {
+    const { completed, authFailed, response } = await handshake(
+      ["ed25519", "ecdsaP256Sha256"],
+      { allowedAlgorithms: ["ed25519"] },
+    );
+    assert.equal(completed, false);
+    assert.equal(response, null);
+    assert.equal(authFailed?.reason, "algorithmNotAllowed");
+    assert.deepEqual(authFailed?.rejectedAlgorithms, ["ecdsaP256Sha256"]);
+    assert.equal(authFailed?.responseSent, false);
+  });
+
+  it("disconnects on unknown algorithms", async () => {
+    const { completed, authFailed } = await handshake(["ed25519", "rsa4096"]);
+    assert.equal(completed, false);
+    assert.equal(authFailed?.reason, "unknownAlgorithm");
+    assert.deepEqual(authFailed?.request?.algorithms, ["ed25519", "rsa4096"]);
+    assert.deepEqual(authFailed?.rejectedAlgorithms, ["rsa4096"]);
+  });
+
+  it("sends a partial response when allowed to", async () => {
+    const { authFailed, response } = await handshake(["ed25519", "rsa4096"], {
+      allowPartialResponse: true,
+    });
+    assert.equal(authFailed?.reason, "unknownAlgorithm");
+    assert.equal(authFailed?.responseSent, true);
+    assert.deepEqual(
+      response?.signatures.map(({ algorithm }) => algorithm),
+      ["ed25519"],
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { describe, it } from "node:test";
+import { chunkBlockIndex } from "../src/chunkParser.js";
+import type { Chunk } from "../src/connectionTypes.js";
+import { CHUNK_VOLUME } from "../src/constants.js";
+import { type BlockChange, World } from "../src/world.js";
+
+function chunk(wx: number, wy: number, wz: number, fill = 0): Chunk {
+  return {
+    position: { wx, wy, wz, voxelSize: 1 },
+    blocks: new Uint32Array(CHUNK_VOLUME).fill(fill),
+  };
+}
+
+function update(x: number, y: number, z: number, block: number, data = "") {
+  return {
+    position: { x, y, z },
+    block,
+    blockEntityData: Buffer.from(data),
+  };
+}
+
+describe("World", () => {
+  it("looks blocks up in loaded chunks", () => {
+    const world = new World();
+    const loaded = chunk(32, 0, -32);
+    loaded.blocks[chunkBlockIndex(1, 2, 3)] = 5;
+    world.setChunk(loaded);
+    assert.equal(world.getBlock(33.7, 2.1, -29), 5);
+    assert.equal(world.getBlock(32, 0, -32), 0);
+    assert.equal(world.getBlock(0, 0, 0), null);
+    assert.ok(world.hasChunkAt(63, 31, -1));
+    assert.equal(world.hasChunkAt(64, 0, -32), false);
+
+    // Only full-resolution chunks are kept.
+    world.setChunk({
+      ...chunk(0, 0, 0),
+      position: { wx: 0, wy: 0, wz: 0, voxelSize: 2 },
+    });
+    assert.equal(world.getChunks().length, 1);
+    assert.ok(world.removeChunk(loaded.position));
+    assert.equal(world.getBlock(33, 2, -29), null);
+  });
+
+  it("lists the loaded blocks in a box", () => {
+    const world = new World();
+    world.setChunk(chunk(0, 0, 0, 1));
+    const entries = world.getBlocksInBox(
+      { x: 31, y: 1, z: 0 },
+      { x: 30, y: 0, z: 0.5 },
+    );
+    assert.deepEqual(
+      entries.map(({ position }) => position),
+      [
+        { x: 30, y: 0, z: 0 },
+        { x: 30, y: 1, z: 0 },
+        { x: 31, y: 0, z: 0 },
+        { x: 31, y: 1, z: 0 },
+      ],
+    );
+    assert.equal(
+      world.getBlocksInBox({ x: 31, y: 0, z: 0 }, { x: 32, y: 0, z: 0 }).length,
+      1,
+    );
+  });
+
+  it("applies block updates and keeps block entity data", () => {
+    const world = new World();
+    world.setChunk(chunk(0, 0, 0));
+    const changes = world.applyBlockUpdates([
+      update(1, 2, 3, 4, "sign"),
+      update(2, 2, 3, 6),
+    ]);
+    assert.deepEqual(changes[0], {
+      position: { x: 1, y: 2, z: 3 },
+      previous: 0,
+      block: 4,
+      blockEntityData: Buffer.from("sign"),
+    });
+    assert.equal(world.getBlock(1, 2, 3), 4);
+    assert.deepEqual(world.getBlockEntityData(1, 2, 3), Buffer.from("sign"));
+    assert.equal(world.getBlockEntityData(2, 2, 3), null);
+
+    world.applyBlockUpdates([update(1, 2, 3, 0)]);
+    assert.equal(world.getBlockEntityData(1, 2, 3), null);
+  });
+
+  it("keeps updates outside loaded chunks until the chunk arrives", () => {
+    const world = new World();
+    world.applyBlockUpdates([update(40, 0, 0, 3, "chest")]);
+    assert.equal(world.getBlock(40, 0, 0), 3);
+    assert.equal(world.getBlock(41, 0, 0), null);
+    assert.deepEqual(world.getBlockEntityData(40, 0, 0), Buffer.from("chest"));
+
+    world.applyBlockUpdates([update(64, 0, 0, 3)]);
+    world.setChunk(chunk(32, 0, 0, 7));
+    assert.equal(world.getBlock(40, 0, 0), 7);
+    // Only the overrides inside the new chunk are dropped.
+    assert.equal(world.getBlock(64, 0, 0), 3);
+  });
+
+  it("keeps block entity data when a chunk arrives", () => {
+    const world = new World();
+    world.setChunk(chunk(0, 0, 0));
+    world.applyBlockUpdates([update(1, 2, 3, 4, "sign")]);
+    world.setChunk(chunk(0, 0, 0, 4));
+    assert.deepEqual(world.getBlockEntityData(1, 2, 3), Buffer.from("sign"));
+
+    world.applyBlockUpdates([update(40, 0, 0, 4, "chest")]);
+    assert.ok(world.removeChunk({ wx: 0, wy: 0, wz: 0, voxelSize: 1 }));
+    assert.equal(world.getBlockEntityData(1, 2, 3), null);
+    assert.deepEqual(world.getBlockEntityData(40, 0, 0), Buffer.from("chest"));
+  });
+
+  it("notifies listeners about changes in their region", () => {
+    const world = new World();
+    const seen: BlockChange[][] = [];
+    const unsubscribe = world.onChange(
+      { min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 1, z: 1 } },
+      (changes) => seen.push(changes),
+    );
+    world.applyBlockUpdates([update(1, 1, 1, 2), update(5, 5, 5, 2)]);
+    assert.equal(seen.length, 1);
+    assert.deepEqual(
+      seen[0].map(({ position }) => position),
+      [{ x: 1, y: 1, z: 1 }],
+    );
+
+    world.setChunk(chunk(0, 0, 0, 9));
+    assert.equal(seen.length, 2);
+    assert.equal(seen[1].length, 8);
+    assert.ok(seen[1].every(({ block }) => block === 9));
+    world.setChunk(chunk(32, 0, 0));
+    assert.equal(seen.length, 2);
+
+    unsubscribe();
+    world.applyBlockUpdates([update(0, 0, 0, 1)]);
+    assert.equal(seen.length, 2);
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseZon, stringifyZon, ZonParseError } from "../src/zon.js";
+
+describe("parseZon", () => {
+  it("parses structs, tuples and scalars", () => {
+    assert.deepEqual(
+      parseZon(
+        '.{ .name = "Bot", .pos = .{ 1, -2.5, 3 }, .ok = true, .none = null }',
+      ),
+      { name: "Bot", pos: [1, -2.5, 3], ok: true, none: null },
+    );
+  });
+
+  it("skips comments and allows trailing commas", () => {
+    assert.deepEqual(parseZon(".{\n  // comment\n  .a = 1,\n  .b = 2,\n}"), {
+      a: 1,
+      b: 2,
+    });
+  });
+
+  it("parses radix, char and special float literals", () => {
+    assert.deepEqual(
+      parseZon(".{ 0x1F, 0o17, 0b101, 1_000, 'A', inf, -inf }"),
+      [31, 15, 5, 1000, 65, Infinity, -Infinity],
+    );
+    assert.ok(Number.isNaN(parseZon("nan")));
+  });
+
+  it("keeps integers beyond 2^53 as bigint", () => {
+    assert.equal(
+      (parseZon(".{ .seed = 18446744073709551615 }") as { seed: bigint }).seed,
+      18446744073709551615n,
+    );
+  });
+
+  it("parses escapes, multiline strings and quoted identifiers", () => {
+    assert.deepEqual(
+      parseZon(
+        '.{ .@"a b" = "tab\\tu\\u{e9}", .text = \\\\line 1\n\\\\line 2\n }',
+      ),
+      { "a b": "tab\tué", text: "line 1\nline 2" },
+    );
+  });
+
+  it("decodes runs of byte escapes as UTF-8", () => {
+    assert.equal(parseZon('"caf\\xc3\\xa9 \\xf0\\x9f\\xa7\\xb1"'), "café 🧱");
+    assert.equal(parseZon('"\\x41\\x7e"'), "A~");
+    assert.equal(parseZon("'\\x41'"), 0x41);
+    assert.throws(() => parseZon('"\\xc3\\x"'), ZonParseError);
+  });
+
+  it("parses enum literals as strings", () => {
+    assert.equal(parseZon(".survival"), "survival");
+  });
+
+  it("reports the position of syntax errors", () => {
+    assert.throws(
+      () => parseZon(".{\n  .a = ,\n}"),
+      (error: unknown) =>
+        error instanceof ZonParseError &&
+        error.line === 2 &&
+        error.column === 8,
+    );
+    assert.throws(() => parseZon("1 2"), ZonParseError);
+  });
+});
+
+describe("stringifyZon", () => {
+  it("writes values that parse back unchanged", () => {
+    const value = {
+      name: 'Bot "one"\n',
+      "not an identifier": [1, 2.5, -0, true, null],
+      big: 12345678901234567890n,
+      large: 2 ** 60,
+      nested: { list: ["a", "b"] },
+    };
+    assert.deepEqual(parseZon(stringifyZon(value)), value);
+    assert.deepEqual(parseZon(stringifyZon(value, { indent: 2 })), value);
+  });
+
+  it("writes large integer numbers in exponent notation", () => {
+    assert.equal(stringifyZon(2 ** 60), "1.152921504606847e+18");
+    assert.equal(typeof parseZon(stringifyZon(2 ** 60)), "number");
+  });
+
+  it("escapes non-ASCII characters unless asked not to", () => {
+    assert.equal(stringifyZon("é"), '"\\u{e9}"');
+    assert.equal(stringifyZon("é", { asciiOnly: false }), '"é"');
+  });
+
+  it("formats with indentation and omits undefined fields", () => {
+    assert.equal(
+      stringifyZon({ a: 1, b: undefined, c: [] } as never, { indent: 2 }),
+      ".{\n  .a = 1,\n  .c = .{},\n}",
+    );
+  });
+
+  it("writes empty structs as an empty tuple", () => {
+    assert.deepEqual(parseZon(stringifyZon({ a: {} })), { a: [] });
+  });
+
+  it("rejects circular structures", () => {
+    const value: { self?: unknown } = {};
+    value.self = value;
+    assert.throws(() => stringifyZon(value as never), TypeError);
+  });
+});
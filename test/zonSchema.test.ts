@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseZon } from "../src/zon.js";
+import { formatZonPath, ZonSchemaError, z } from "../src/zonSchema.js";
+
+describe("ZonSchema", () => {
+  const player = z.object({
+    name: z.string(),
+    level: z.int().default(1),
+    position: z.vec3(),
+    tags: z.array(z.string()).optional(),
+  });
+
+  it("decodes matching values", () => {
+    assert.deepEqual(
+      player.parse(parseZon('.{ .name = "Bot", .position = .{ 1, 2, 3 } }')),
+      { name: "Bot", level: 1, position: { x: 1, y: 2, z: 3 } },
+    );
+  });
+
+  it("collects every issue with its path", () => {
+    const result = player.safeParse(
+      parseZon('.{ .name = 5, .position = .{ 1, "2", 3 }, .tags = .{ 1 } }'),
+    );
+    assert.equal(result.success, false);
+    if (result.success) {
+      return;
+    }
+    assert.ok(result.error instanceof ZonSchemaError);
+    assert.deepEqual(
+      result.error.issues.map((issue) => formatZonPath(issue.path)),
+      ["name", "position[1]", "tags[0]"],
+    );
+    assert.deepEqual(result.error.path, ["name"]);
+  });
+
+  it("throws ZonSchemaError from parse", () => {
+    assert.throws(() => z.string().parse(1), ZonSchemaError);
+    assert.throws(() => z.any().parse(undefined), /missing value/);
+  });
+
+  it("supports unions, literals, records and transforms", () => {
+    const mode = z.union([
+      z.literal(0),
+      z.literal("creative").transform(() => 1 as const),
+    ]);
+    assert.equal(mode.parse("creative"), 1);
+    assert.equal(mode.parse(0), 0);
+    assert.throws(() => mode.parse("spectator"), ZonSchemaError);
+    assert.deepEqual(z.record(z.int()).parse({ a: 1, b: 2 }), { a: 1, b: 2 });
+  });
+
+  it("accepts integers of any size as bigint", () => {
+    assert.equal(z.bigint().parse(5), 5n);
+    assert.equal(
+      z.bigint().parse(parseZon("18446744073709551615")),
+      18446744073709551615n,
+    );
+    assert.throws(() => z.bigint().parse(1.5), ZonSchemaError);
+  });
+
+  it("keeps integers as numbers or bigints", () => {
+    assert.equal(z.intOrBigint().parse(5), 5);
+    assert.equal(
+      z.intOrBigint().parse(parseZon("18446744073709551615")),
+      18446744073709551615n,
+    );
+    assert.throws(() => z.intOrBigint().parse(1.5), ZonSchemaError);
+  });
+
+  it("applies refinements, nullable and optional", () => {
+    const positive = z.number().refine((value) => value > 0, "must be > 0");
+    assert.throws(() => positive.parse(-1), /must be > 0/);
+    assert.equal(z.string().nullable().parse(null), null);
+    assert.equal(z.string().optional().parse(undefined), undefined);
+  });
+
+  it("formats paths", () => {
+    assert.equal(formatZonPath([]), "<root>");
+    assert.equal(formatZonPath(["a", 0, "b"]), "a[0].b");
+  });
+});